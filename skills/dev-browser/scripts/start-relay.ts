@@ -5,14 +5,17 @@
  */
 
 import { serveRelay } from "@/relay.js";
+import { AUTH_TOKEN_ENV } from "@/auth.js";
 
 const PORT = parseInt(process.env.PORT || "9222", 10);
 const HOST = process.env.HOST || "127.0.0.1";
+const AUTH_TOKEN = process.env[AUTH_TOKEN_ENV] || undefined;
 
 async function main() {
   const server = await serveRelay({
     port: PORT,
     host: HOST,
+    authToken: AUTH_TOKEN,
   });
 
   // Handle shutdown
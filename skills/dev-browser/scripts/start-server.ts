@@ -287,24 +287,46 @@ try {
   // No process on CDP port, which is expected
 }
 
+console.log(`Browser: ${config.browser}`);
 console.log(`Browser mode: ${config.headless ? "headless" : "headful"}`);
 console.log("Starting dev browser server...");
 const server = await serve({
   port: portResult.port,
   headless: config.headless,
+  browser: config.browser,
+  chromePath: config.chromePath,
+  chromeArgs: config.chromeArgs,
+  extensions: config.extensions,
+  ignoreHTTPSErrors: config.ignoreHttpsErrors,
+  proxy: config.proxy,
   cdpPort: portResult.cdpPort,
   profileDir,
+  ephemeral: config.ephemeral,
   cookies: config.cookies,
   label: config.label,
+  authToken: config.authToken,
+  networkBodyLimit: config.networkBodyLimit,
+  traceDir: config.traceDir,
+  dialogPolicy: config.dialogPolicy,
+  grantPermissions: config.grantPermissions,
+  saveCookies: config.saveCookies,
+  restoreCheckpoint: config.restoreCheckpoint,
 });
 
 console.log(`Dev browser server started`);
 console.log(`  HTTP API: http://localhost:${portResult.port}`);
-console.log(`  CDP port: ${portResult.cdpPort}`);
+console.log(
+  `  ${config.browser === "chromium" ? "CDP" : "Playwright server"} port: ${portResult.cdpPort}`
+);
 console.log(`  WebSocket: ${server.wsEndpoint}`);
 console.log(`  Tmp directory: ${tmpDir}`);
-console.log(`  Profile directory: ${profileDir}`);
+console.log(
+  `  Profile directory: ${profileDir}${config.ephemeral ? " (browser data is ephemeral)" : ""}`
+);
 console.log(`  Label: ${config.label ?? process.cwd()}`);
+if (config.authToken) {
+  console.log(`  Auth: bearer token required`);
+}
 if (portResult.wasAutoSelected) {
   console.log(
     `  Note: Auto-selected port ${portResult.port} (${portResult.requestedPort} was in use)`
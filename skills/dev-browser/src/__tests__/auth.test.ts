@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseBearerToken,
+  tokensMatch,
+  isAuthorized,
+  isLoopbackAddress,
+  authHeaders,
+} from "../auth.js";
+
+/**
+ * Tests for bearer-token authentication helpers.
+ *
+ * These guard every HTTP route and the /cdp WebSocket when --auth-token is set.
+ * A bug here either locks legitimate clients out or lets anyone on the network
+ * drive a logged-in browser profile.
+ */
+
+describe("parseBearerToken", () => {
+  it("extracts the token from a Bearer header", () => {
+    expect(parseBearerToken("Bearer abc123")).toBe("abc123");
+  });
+
+  it("is case-insensitive on the scheme", () => {
+    expect(parseBearerToken("bearer abc123")).toBe("abc123");
+  });
+
+  it("returns undefined for missing headers", () => {
+    expect(parseBearerToken(undefined)).toBeUndefined();
+    expect(parseBearerToken(null)).toBeUndefined();
+    expect(parseBearerToken("")).toBeUndefined();
+  });
+
+  it("returns undefined for non-Bearer schemes", () => {
+    expect(parseBearerToken("Basic dXNlcjpwYXNz")).toBeUndefined();
+  });
+});
+
+describe("tokensMatch", () => {
+  it("matches identical tokens", () => {
+    expect(tokensMatch("secret", "secret")).toBe(true);
+  });
+
+  it("rejects different tokens of the same length", () => {
+    expect(tokensMatch("secret", "secreT")).toBe(false);
+  });
+
+  it("rejects tokens of different length", () => {
+    expect(tokensMatch("secret", "secret-longer")).toBe(false);
+  });
+
+  it("rejects a missing token", () => {
+    expect(tokensMatch("secret", undefined)).toBe(false);
+  });
+});
+
+describe("isAuthorized", () => {
+  it("allows everything when no token is configured", () => {
+    expect(isAuthorized(undefined, undefined, undefined)).toBe(true);
+  });
+
+  it("accepts a matching Authorization header", () => {
+    expect(isAuthorized("secret", "Bearer secret", undefined)).toBe(true);
+  });
+
+  it("accepts a matching query token", () => {
+    expect(isAuthorized("secret", undefined, "secret")).toBe(true);
+  });
+
+  it("rejects requests without credentials", () => {
+    expect(isAuthorized("secret", undefined, undefined)).toBe(false);
+  });
+
+  it("rejects wrong credentials", () => {
+    expect(isAuthorized("secret", "Bearer wrong", "wrong")).toBe(false);
+  });
+});
+
+describe("isLoopbackAddress", () => {
+  it("recognizes IPv4, IPv6 and IPv4-mapped loopback", () => {
+    expect(isLoopbackAddress("127.0.0.1")).toBe(true);
+    expect(isLoopbackAddress("::1")).toBe(true);
+    expect(isLoopbackAddress("::ffff:127.0.0.1")).toBe(true);
+  });
+
+  it("rejects remote and missing addresses", () => {
+    expect(isLoopbackAddress("192.168.1.10")).toBe(false);
+    expect(isLoopbackAddress("::ffff:10.0.0.1")).toBe(false);
+    expect(isLoopbackAddress(undefined)).toBe(false);
+  });
+});
+
+describe("authHeaders", () => {
+  it("returns an Authorization header when a token is set", () => {
+    expect(authHeaders("secret")).toEqual({ Authorization: "Bearer secret" });
+  });
+
+  it("returns no headers without a token", () => {
+    expect(authHeaders(undefined)).toEqual({});
+  });
+});
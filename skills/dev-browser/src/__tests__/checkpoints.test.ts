@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  CHECKPOINT_VERSION,
+  CheckpointError,
+  PAGE_STATE_EXPRESSION,
+  checkpointInfo,
+  checkpointPath,
+  loadCheckpoint,
+  parseCheckpoint,
+  restorableDatabases,
+  restoreOriginExpression,
+  restoreSessionStorageExpression,
+  scrollExpression,
+  validateCheckpointName,
+  type Checkpoint,
+  type IndexedDBDatabase,
+} from "../checkpoints.js";
+
+/**
+ * Tests for storage-state checkpoints.
+ *
+ * Checkpoint names become file names under the profile directory, so a bad name
+ * must never escape it. Restores start new sessions from these files, so a
+ * corrupt or foreign file has to be rejected before anything in the browser
+ * is cleared.
+ */
+
+function sampleCheckpoint(): Checkpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    name: "logged-in",
+    context: "default",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    cookies: [
+      {
+        name: "sid",
+        value: "abc",
+        domain: ".example.com",
+        path: "/",
+        expires: -1,
+        httpOnly: true,
+        secure: true,
+        sameSite: "Lax",
+      },
+    ],
+    origins: [{ origin: "https://example.com", localStorage: [{ name: "theme", value: "dark" }] }],
+    pages: [
+      {
+        name: "main",
+        url: "https://example.com/dashboard",
+        viewport: { width: 1280, height: 720 },
+        scrollX: 0,
+        scrollY: 400,
+        sessionStorage: [{ name: "tab", value: "2" }],
+      },
+    ],
+  };
+}
+
+describe("validateCheckpointName", () => {
+  it("accepts letters, digits, dots, dashes and underscores", () => {
+    expect(validateCheckpointName("logged-in_v2.1")).toBe("logged-in_v2.1");
+  });
+
+  it("rejects path separators and traversal", () => {
+    expect(() => validateCheckpointName("../etc/passwd")).toThrow(CheckpointError);
+    expect(() => validateCheckpointName("a/b")).toThrow(CheckpointError);
+    expect(() => validateCheckpointName("a\\b")).toThrow(CheckpointError);
+  });
+
+  it("rejects hidden, empty, overlong and non-string names", () => {
+    expect(() => validateCheckpointName(".hidden")).toThrow(CheckpointError);
+    expect(() => validateCheckpointName("")).toThrow(CheckpointError);
+    expect(() => validateCheckpointName("a".repeat(101))).toThrow(CheckpointError);
+    expect(() => validateCheckpointName(42)).toThrow(CheckpointError);
+  });
+});
+
+describe("checkpointPath", () => {
+  it("stores checkpoints as <name>.json in the directory", () => {
+    expect(checkpointPath("/profile/checkpoints", "main")).toBe(
+      join("/profile/checkpoints", "main.json")
+    );
+  });
+});
+
+describe("parseCheckpoint", () => {
+  it("round-trips a saved checkpoint", () => {
+    const checkpoint = sampleCheckpoint();
+    expect(parseCheckpoint(JSON.stringify(checkpoint))).toEqual(checkpoint);
+  });
+
+  it("rejects invalid JSON", () => {
+    expect(() => parseCheckpoint("{not json")).toThrow(/not valid JSON/);
+  });
+
+  it("rejects other versions", () => {
+    const checkpoint = { ...sampleCheckpoint(), version: 99 };
+    expect(() => parseCheckpoint(JSON.stringify(checkpoint))).toThrow(/version 99/);
+  });
+
+  it("rejects files without the checkpoint fields", () => {
+    // e.g. a plain Playwright storageState file
+    expect(() =>
+      parseCheckpoint(JSON.stringify({ version: CHECKPOINT_VERSION, cookies: [], origins: [] }))
+    ).toThrow(CheckpointError);
+    expect(() => parseCheckpoint("null")).toThrow(CheckpointError);
+  });
+});
+
+describe("loadCheckpoint", () => {
+  const dir = join(import.meta.dirname, "..", "..", "tmp", "checkpoint-tests");
+
+  beforeEach(() => {
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads a checkpoint by name", () => {
+    writeFileSync(join(dir, "logged-in.json"), JSON.stringify(sampleCheckpoint()));
+    expect(loadCheckpoint(dir, "logged-in").pages[0]!.name).toBe("main");
+  });
+
+  it("throws for a missing checkpoint", () => {
+    expect(() => loadCheckpoint(dir, "missing")).toThrow(/not found/);
+  });
+});
+
+describe("checkpointInfo", () => {
+  it("summarizes without cookie or storage values", () => {
+    const info = checkpointInfo(sampleCheckpoint(), "/p/checkpoints/logged-in.json");
+    expect(info).toEqual({
+      name: "logged-in",
+      context: "default",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      path: "/p/checkpoints/logged-in.json",
+      cookies: 1,
+      origins: 1,
+      pages: ["main"],
+    });
+    expect(JSON.stringify(info)).not.toContain("abc");
+  });
+});
+
+describe("restorableDatabases", () => {
+  const databases: IndexedDBDatabase[] = [
+    {
+      name: "app",
+      version: 3,
+      stores: [
+        {
+          name: "kv",
+          autoIncrement: false,
+          indexes: [],
+          records: [
+            { key: "token", value: { id: 1 } },
+            { key: "when", valueEncoded: { d: "2026-01-01T00:00:00.000Z" } },
+            { keyEncoded: { d: "2026-01-01T00:00:00.000Z" }, value: "x" },
+          ],
+        },
+      ],
+    },
+  ];
+
+  it("keeps plain records and counts encoded ones", () => {
+    const result = restorableDatabases(databases);
+    expect(result.skipped).toBe(2);
+    expect(result.databases[0]!.stores[0]!.records).toEqual([{ key: "token", value: { id: 1 } }]);
+  });
+
+  it("does not modify the input", () => {
+    restorableDatabases(databases);
+    expect(databases[0]!.stores[0]!.records).toHaveLength(3);
+  });
+});
+
+describe("page scripts", () => {
+  it("are valid JavaScript expressions", () => {
+    const items = [{ name: "tab", value: "2" }];
+    for (const expression of [
+      PAGE_STATE_EXPRESSION,
+      restoreOriginExpression(items, []),
+      restoreSessionStorageExpression(items),
+      scrollExpression(0, 400),
+    ]) {
+      expect(() => new Function(`return ${expression};`)).not.toThrow();
+    }
+  });
+
+  it("embed storage items as data, not code", () => {
+    const items = [{ name: "x", value: '"); alert(1); ("' }];
+    expect(restoreSessionStorageExpression(items)).toContain(JSON.stringify(items));
+    expect(restoreOriginExpression(items, [])).toContain(`${JSON.stringify(items)}, []`);
+  });
+
+  it("coerce scroll positions to numbers", () => {
+    expect(scrollExpression(10, 400)).toBe("window.scrollTo(10, 400)");
+    expect(scrollExpression(NaN, "1);alert(1" as unknown as number)).toBe("window.scrollTo(0, 0)");
+  });
+});
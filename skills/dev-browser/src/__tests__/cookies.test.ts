@@ -9,6 +9,14 @@ import {
   parseCookieArg,
   parseAllCookies,
   cookieSummary,
+  toCookieParams,
+  filterCookiesByDomain,
+  formatNetscapeCookies,
+  formatCookies,
+  cookieFormatForPath,
+  parseCookieInput,
+  parseCookieFilter,
+  matchCookies,
   CookieParseError,
 } from "../cookies.js";
 
@@ -249,6 +257,20 @@ describe("parseNetscapeCookies", () => {
     expect(() => parseNetscapeCookies(content)).toThrow("expected 7 tab-separated fields");
   });
 
+  it("reads curl's #HttpOnly_ prefix as an httpOnly cookie", () => {
+    const content = "#HttpOnly_.example.com\tTRUE\t/\tTRUE\t0\tsid\tabc";
+    expect(parseNetscapeCookies(content)).toEqual([
+      {
+        name: "sid",
+        value: "abc",
+        domain: ".example.com",
+        path: "/",
+        secure: true,
+        httpOnly: true,
+      },
+    ]);
+  });
+
   it("throws on empty file (no cookies)", () => {
     const content = "# Just comments\n# No actual cookies\n";
     expect(() => parseNetscapeCookies(content)).toThrow("no cookie entries");
@@ -408,4 +430,145 @@ describe("cookieSummary", () => {
     expect(summary).not.toContain("secretB");
     expect(summary).not.toContain("secretC");
   });
+
+  it("uses the given action", () => {
+    expect(cookieSummary([], "Deleted")).toBe("No cookies deleted.");
+    expect(cookieSummary([{ name: "sid", domain: ".example.com" }], "Deleted")).toContain(
+      "Deleted 1 cookie for 1 domain"
+    );
+  });
+});
+
+describe("toCookieParams", () => {
+  it("drops the expires of session cookies and false flags", () => {
+    expect(
+      toCookieParams([
+        {
+          name: "sid",
+          value: "abc",
+          domain: "example.com",
+          path: "/",
+          expires: -1,
+          httpOnly: false,
+          secure: false,
+          sameSite: "Lax",
+        },
+      ])
+    ).toEqual([{ name: "sid", value: "abc", domain: "example.com", path: "/", sameSite: "Lax" }]);
+  });
+});
+
+describe("filterCookiesByDomain", () => {
+  const cookies = [
+    { name: "a", value: "1", domain: ".example.com" },
+    { name: "b", value: "2", domain: "api.example.com" },
+    { name: "c", value: "3", domain: "other.com" },
+    { name: "d", value: "4", domain: "notexample.com" },
+  ];
+
+  it("keeps the domain, parent domains and subdomains", () => {
+    expect(filterCookiesByDomain(cookies, "example.com").map((c) => c.name)).toEqual(["a", "b"]);
+    expect(filterCookiesByDomain(cookies, "api.example.com").map((c) => c.name)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("does not match on partial labels", () => {
+    expect(filterCookiesByDomain(cookies, "other.com").map((c) => c.name)).toEqual(["c"]);
+  });
+});
+
+describe("parseCookieInput", () => {
+  it("accepts a single argument", () => {
+    expect(parseCookieInput("name=sid;value=abc;domain=.example.com")).toEqual([
+      { name: "sid", value: "abc", domain: ".example.com" },
+    ]);
+  });
+
+  it("merges a list of arguments, last wins", () => {
+    const cookies = parseCookieInput([
+      "name=sid;value=old;domain=.example.com",
+      '{"name":"sid","value":"new","domain":".example.com"}',
+    ]);
+    expect(cookies).toEqual([{ name: "sid", value: "new", domain: ".example.com" }]);
+  });
+
+  it("rejects missing, empty and non-string input", () => {
+    expect(() => parseCookieInput(undefined)).toThrow(CookieParseError);
+    expect(() => parseCookieInput([])).toThrow(CookieParseError);
+    expect(() => parseCookieInput("  ")).toThrow(CookieParseError);
+    expect(() => parseCookieInput([{ name: "sid" }])).toThrow(CookieParseError);
+  });
+});
+
+describe("parseCookieFilter", () => {
+  it("returns an empty filter for an empty body", () => {
+    expect(parseCookieFilter(undefined)).toEqual({});
+    expect(parseCookieFilter({ context: "admin" })).toEqual({});
+  });
+
+  it("keeps name and domain", () => {
+    expect(parseCookieFilter({ name: "sid", domain: "example.com" })).toEqual({
+      name: "sid",
+      domain: "example.com",
+    });
+  });
+
+  it("rejects non-string values", () => {
+    expect(() => parseCookieFilter({ name: 1 })).toThrow(CookieParseError);
+    expect(() => parseCookieFilter({ domain: "" })).toThrow(CookieParseError);
+  });
+});
+
+describe("matchCookies", () => {
+  const cookies = [
+    { name: "sid", domain: ".example.com" },
+    { name: "sid", domain: "app.example.com" },
+    { name: "pref", domain: "app.example.com" },
+    { name: "sid", domain: "other.com" },
+  ];
+
+  it("selects everything with an empty filter", () => {
+    expect(matchCookies(cookies, {})).toHaveLength(4);
+  });
+
+  it("matches the domain and its subdomains, but not parents", () => {
+    expect(matchCookies(cookies, { domain: "example.com" })).toHaveLength(3);
+    expect(matchCookies(cookies, { domain: "app.example.com" })).toEqual([
+      { name: "sid", domain: "app.example.com" },
+      { name: "pref", domain: "app.example.com" },
+    ]);
+  });
+
+  it("combines name and domain", () => {
+    expect(matchCookies(cookies, { name: "sid", domain: ".example.com" })).toEqual([
+      { name: "sid", domain: ".example.com" },
+      { name: "sid", domain: "app.example.com" },
+    ]);
+  });
+});
+
+describe("cookie export", () => {
+  const cookies = [
+    { name: "sid", value: "abc", domain: ".example.com", path: "/", httpOnly: true, secure: true },
+    { name: "pref", value: "dark", domain: "example.com", path: "/app", expires: 1735689600 },
+  ];
+
+  it("formats Netscape text that parseNetscapeCookies reads back", () => {
+    const text = formatNetscapeCookies(cookies);
+    expect(text).toContain("#HttpOnly_.example.com\tTRUE\t/\tTRUE\t0\tsid\tabc");
+    expect(text).toContain("example.com\tFALSE\t/app\tFALSE\t1735689600\tpref\tdark");
+    expect(parseNetscapeCookies(text)).toEqual(cookies);
+  });
+
+  it("formats JSON that parseJsonCookies reads back", () => {
+    expect(parseJsonCookies(formatCookies(cookies, "json"))).toEqual(cookies);
+  });
+
+  it("picks the format from the file extension", () => {
+    expect(cookieFormatForPath("session.json")).toBe("json");
+    expect(cookieFormatForPath("cookies.txt")).toBe("netscape");
+    expect(cookieFormatForPath("cookies")).toBe("netscape");
+  });
 });
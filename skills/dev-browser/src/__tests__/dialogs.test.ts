@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDialogPolicy,
+  decideDialog,
+  trimDialogHistory,
+  DialogPolicyError,
+} from "../dialogs.js";
+import type { DialogRecord } from "../types";
+
+/**
+ * Tests for JavaScript dialog policy handling.
+ *
+ * An unanswered dialog freezes the page for every later script, so the server
+ * must answer exactly as configured and reject policies it doesn't understand.
+ */
+
+describe("parseDialogPolicy", () => {
+  it("accepts every known policy", () => {
+    for (const policy of ["accept", "dismiss", "accept-with-text", "hold"]) {
+      expect(parseDialogPolicy(policy)).toBe(policy);
+    }
+  });
+
+  it("rejects unknown values", () => {
+    expect(() => parseDialogPolicy("ignore")).toThrow(DialogPolicyError);
+    expect(() => parseDialogPolicy(undefined)).toThrow(DialogPolicyError);
+    expect(() => parseDialogPolicy(1)).toThrow(/accept, dismiss, accept-with-text, hold/);
+  });
+});
+
+describe("decideDialog", () => {
+  it("accepts without prompt text", () => {
+    expect(decideDialog("accept", "default")).toEqual({ action: "accept" });
+  });
+
+  it("dismisses", () => {
+    expect(decideDialog("dismiss", "")).toEqual({ action: "dismiss" });
+  });
+
+  it("answers prompts with the configured text", () => {
+    expect(decideDialog("accept-with-text", "default", "hello")).toEqual({
+      action: "accept",
+      promptText: "hello",
+    });
+  });
+
+  it("falls back to the prompt's default value", () => {
+    expect(decideDialog("accept-with-text", "default")).toEqual({
+      action: "accept",
+      promptText: "default",
+    });
+  });
+
+  it("holds dialogs for a later decision", () => {
+    expect(decideDialog("hold", "")).toEqual({ action: "hold" });
+  });
+});
+
+describe("trimDialogHistory", () => {
+  const record = (id: number, status: DialogRecord["status"]): DialogRecord => ({
+    id,
+    type: "alert",
+    message: `dialog ${id}`,
+    defaultValue: "",
+    url: "https://example.com/",
+    policy: status === "pending" ? "hold" : "dismiss",
+    status,
+    openedAt: "2026-01-01T00:00:00.000Z",
+  });
+
+  it("drops the oldest answered dialogs until the limit is met", () => {
+    const dialogs = [
+      record(1, "accepted"),
+      record(2, "pending"),
+      record(3, "dismissed"),
+      record(4, "accepted"),
+      record(5, "dismissed"),
+    ];
+    trimDialogHistory(dialogs, 2);
+    expect(dialogs.map((d) => d.id)).toEqual([2, 5]);
+  });
+
+  it("keeps pending dialogs even over the limit", () => {
+    const dialogs = [record(1, "pending"), record(2, "accepted"), record(3, "pending")];
+    trimDialogHistory(dialogs, 1);
+    expect(dialogs.map((d) => d.id)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { join } from "path";
+import {
+  sanitizeFilename,
+  uniqueDownloadPath,
+  downloadStatusFromProgress,
+  contentDisposition,
+} from "../downloads.js";
+
+/**
+ * Tests for download bookkeeping helpers.
+ *
+ * Suggested filenames come from arbitrary websites, so they must never escape
+ * the managed downloads directory or overwrite an earlier download.
+ */
+
+describe("sanitizeFilename", () => {
+  it("keeps ordinary filenames", () => {
+    expect(sanitizeFilename("report.pdf")).toBe("report.pdf");
+  });
+
+  it("strips directory components", () => {
+    expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFilename("C:\\Users\\me\\file.txt")).toBe("file.txt");
+  });
+
+  it("replaces control and reserved characters", () => {
+    expect(sanitizeFilename('a:b*c?"d.txt')).toBe("a_b_c__d.txt");
+  });
+
+  it("removes leading dots and falls back for empty names", () => {
+    expect(sanitizeFilename(".bashrc")).toBe("bashrc");
+    expect(sanitizeFilename("..")).toBe("download");
+    expect(sanitizeFilename("")).toBe("download");
+  });
+});
+
+describe("uniqueDownloadPath", () => {
+  it("uses the suggested name when free", () => {
+    expect(uniqueDownloadPath("/dl", "report.pdf", () => false)).toBe(join("/dl", "report.pdf"));
+  });
+
+  it("adds a numeric suffix before the extension on collision", () => {
+    const taken = new Set([join("/dl", "report.pdf"), join("/dl", "report (1).pdf")]);
+    expect(uniqueDownloadPath("/dl", "report.pdf", (p) => taken.has(p))).toBe(
+      join("/dl", "report (2).pdf")
+    );
+  });
+
+  it("handles names without an extension", () => {
+    const taken = new Set([join("/dl", "data")]);
+    expect(uniqueDownloadPath("/dl", "data", (p) => taken.has(p))).toBe(join("/dl", "data (1)"));
+  });
+});
+
+describe("downloadStatusFromProgress", () => {
+  it("maps CDP progress states", () => {
+    expect(downloadStatusFromProgress("inProgress")).toBe("in_progress");
+    expect(downloadStatusFromProgress("completed")).toBe("completed");
+    expect(downloadStatusFromProgress("canceled")).toBe("canceled");
+  });
+
+  it("treats unknown states as failed", () => {
+    expect(downloadStatusFromProgress("interrupted")).toBe("failed");
+  });
+});
+
+describe("contentDisposition", () => {
+  it("quotes ASCII filenames", () => {
+    expect(contentDisposition("report.pdf")).toBe(
+      "attachment; filename=\"report.pdf\"; filename*=UTF-8''report.pdf"
+    );
+  });
+
+  it("encodes non-ASCII filenames and keeps an ASCII fallback", () => {
+    expect(contentDisposition("résumé.pdf")).toBe(
+      "attachment; filename=\"r_sum_.pdf\"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf"
+    );
+  });
+});
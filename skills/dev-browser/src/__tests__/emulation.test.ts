@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveEmulation,
+  emulationCommands,
+  EmulationError,
+  type DeviceDescriptor,
+} from "../emulation.js";
+
+/**
+ * Tests for device/locale/timezone emulation.
+ *
+ * Emulation is applied to long-lived pages over CDP, so invalid input has to be
+ * caught before any command is sent, and each setting must map to exactly the
+ * Emulation command that implements it.
+ */
+
+const devices: Record<string, DeviceDescriptor> = {
+  "iPhone 13": {
+    userAgent: "Mozilla/5.0 (iPhone)",
+    viewport: { width: 390, height: 664 },
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+  },
+};
+
+describe("resolveEmulation", () => {
+  it("expands a device descriptor", () => {
+    expect(resolveEmulation({ device: "iPhone 13" }, devices)).toEqual({
+      userAgent: "Mozilla/5.0 (iPhone)",
+      viewport: { width: 390, height: 664 },
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+    });
+  });
+
+  it("lets explicit fields override the device", () => {
+    const resolved = resolveEmulation(
+      { device: "iPhone 13", userAgent: "custom", locale: "de-DE" },
+      devices
+    );
+    expect(resolved.userAgent).toBe("custom");
+    expect(resolved.locale).toBe("de-DE");
+    expect(resolved.isMobile).toBe(true);
+  });
+
+  it("rejects unknown devices", () => {
+    expect(() => resolveEmulation({ device: "Nokia 3310" }, devices)).toThrow(EmulationError);
+    expect(() => resolveEmulation({ device: "constructor" }, devices)).toThrow(EmulationError);
+  });
+
+  it("rejects invalid timezones and locales", () => {
+    expect(() => resolveEmulation({ timezoneId: "Mars/Olympus" }, devices)).toThrow(/timezoneId/);
+    expect(() => resolveEmulation({ locale: "not a locale!" }, devices)).toThrow(/locale/);
+  });
+
+  it("rejects out-of-range geolocation", () => {
+    expect(() =>
+      resolveEmulation({ geolocation: { latitude: 91, longitude: 0 } }, devices)
+    ).toThrow(/latitude/);
+  });
+
+  it("rejects unknown media values", () => {
+    expect(() => resolveEmulation({ colorScheme: "sepia" as unknown as "dark" }, devices)).toThrow(
+      /colorScheme/
+    );
+  });
+});
+
+describe("emulationCommands", () => {
+  it("returns no commands for empty settings", () => {
+    expect(emulationCommands({})).toEqual([]);
+  });
+
+  it("maps device metrics, user agent and touch", () => {
+    const commands = emulationCommands(resolveEmulation({ device: "iPhone 13" }, devices));
+    expect(commands.map((c) => c.method)).toEqual([
+      "Emulation.setDeviceMetricsOverride",
+      "Emulation.setUserAgentOverride",
+      "Emulation.setTouchEmulationEnabled",
+    ]);
+    expect(commands[0]!.params).toEqual({
+      width: 390,
+      height: 664,
+      deviceScaleFactor: 3,
+      mobile: true,
+    });
+  });
+
+  it("keeps the current size when only the scale factor is set", () => {
+    expect(emulationCommands({ deviceScaleFactor: 2 })[0]!.params).toEqual({
+      width: 0,
+      height: 0,
+      deviceScaleFactor: 2,
+      mobile: false,
+    });
+  });
+
+  it("sends Accept-Language with the user agent when a locale is set", () => {
+    const commands = emulationCommands({ userAgent: "ua", locale: "fr-FR" });
+    expect(commands).toEqual([
+      {
+        method: "Emulation.setUserAgentOverride",
+        params: { userAgent: "ua", acceptLanguage: "fr-FR" },
+      },
+      { method: "Emulation.setLocaleOverride", params: { locale: "fr-FR" } },
+    ]);
+  });
+
+  it("sends Accept-Language with the browser's user agent for a locale alone", () => {
+    expect(emulationCommands({ locale: "de-DE" }, "Chrome/131")).toEqual([
+      {
+        method: "Emulation.setUserAgentOverride",
+        params: { userAgent: "Chrome/131", acceptLanguage: "de-DE" },
+      },
+      { method: "Emulation.setLocaleOverride", params: { locale: "de-DE" } },
+    ]);
+    expect(emulationCommands({ timezoneId: "UTC" }, "Chrome/131")).toEqual([
+      { method: "Emulation.setTimezoneOverride", params: { timezoneId: "UTC" } },
+    ]);
+  });
+
+  it("maps timezone, geolocation and media features", () => {
+    expect(
+      emulationCommands({
+        timezoneId: "Asia/Tokyo",
+        geolocation: { latitude: 35.68, longitude: 139.69 },
+        colorScheme: "dark",
+        reducedMotion: "reduce",
+      })
+    ).toEqual([
+      { method: "Emulation.setTimezoneOverride", params: { timezoneId: "Asia/Tokyo" } },
+      {
+        method: "Emulation.setGeolocationOverride",
+        params: { latitude: 35.68, longitude: 139.69, accuracy: 0 },
+      },
+      {
+        method: "Emulation.setEmulatedMedia",
+        params: {
+          features: [
+            { name: "prefers-color-scheme", value: "dark" },
+            { name: "prefers-reduced-motion", value: "reduce" },
+          ],
+        },
+      },
+    ]);
+  });
+});
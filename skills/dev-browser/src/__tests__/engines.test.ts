@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  BROWSER_ENGINES,
+  BrowserEngineError,
+  PAGE_ID_EXPRESSION,
+  pageIdScript,
+  parseBrowserEngine,
+  usesCDP,
+} from "../engines.js";
+
+/**
+ * Tests for browser engine selection.
+ *
+ * The engine decides how clients attach (connectOverCDP vs connect), and on
+ * engines without CDP the page id stored in the page is the only way a client
+ * can tell named pages apart, so it has to survive being read back.
+ */
+
+describe("parseBrowserEngine", () => {
+  it("accepts every supported engine", () => {
+    for (const engine of BROWSER_ENGINES) {
+      expect(parseBrowserEngine(engine)).toBe(engine);
+    }
+  });
+
+  it("rejects unknown engines", () => {
+    expect(() => parseBrowserEngine("edge")).toThrow(BrowserEngineError);
+    expect(() => parseBrowserEngine("Chromium")).toThrow(/chromium, firefox, webkit/);
+    expect(() => parseBrowserEngine(undefined)).toThrow(BrowserEngineError);
+  });
+});
+
+describe("usesCDP", () => {
+  it("is true only for chromium", () => {
+    expect(usesCDP("chromium")).toBe(true);
+    expect(usesCDP("firefox")).toBe(false);
+    expect(usesCDP("webkit")).toBe(false);
+  });
+});
+
+describe("pageIdScript", () => {
+  it("stores an id that PAGE_ID_EXPRESSION reads back", () => {
+    const scope: Record<string, unknown> = {};
+    new Function("globalThis", pageIdScript("abc-123"))(scope);
+    expect(new Function("globalThis", `return ${PAGE_ID_EXPRESSION};`)(scope)).toBe("abc-123");
+  });
+
+  it("can run again on the same document", () => {
+    const scope: Record<string, unknown> = {};
+    new Function("globalThis", pageIdScript("first"))(scope);
+    new Function("globalThis", pageIdScript("second"))(scope);
+    expect(scope.__devBrowserPageId).toBe("second");
+  });
+
+  it("embeds the id as data, not code", () => {
+    expect(pageIdScript('"); alert(1); ("')).toContain(JSON.stringify('"); alert(1); ("'));
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  EventStreamError,
+  consoleTextFromCDP,
+  createEventBus,
+  createSSEParser,
+  formatSSE,
+  parseEventTypes,
+  parseReplayFrom,
+} from "../events.js";
+import type { ServerEvent } from "../types";
+
+/**
+ * Tests for the GET /events stream.
+ *
+ * Clients rely on this stream instead of polling /pages, so a reconnecting
+ * client has to get exactly the events it missed, and the wire format must
+ * round-trip through the client's parser even when messages arrive split
+ * across network chunks.
+ */
+
+describe("createEventBus", () => {
+  it("delivers published events to subscribers with increasing ids", () => {
+    const bus = createEventBus();
+    const listener = vi.fn();
+    bus.subscribe(listener);
+
+    const first = bus.publish("page.created", { page: "main", targetId: "T1" });
+    const second = bus.publish("page.closed", { page: "main" });
+
+    expect(second.id).toBe(first.id + 1);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1]![0]).toMatchObject({
+      type: "page.closed",
+      data: { page: "main" },
+    });
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const bus = createEventBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.subscribe(listener);
+    unsubscribe();
+    bus.publish("page.crashed", { page: "main" });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("keeps delivering when one listener throws", () => {
+    const bus = createEventBus();
+    const listener = vi.fn();
+    bus.subscribe(() => {
+      throw new Error("stream closed");
+    });
+    bus.subscribe(listener);
+    bus.publish("page.crashed", { page: "main" });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays retained events after an id", () => {
+    const bus = createEventBus(2);
+    bus.publish("page.created", { page: "a", targetId: "T1" });
+    const second = bus.publish("page.created", { page: "b", targetId: "T2" });
+    bus.publish("page.created", { page: "c", targetId: "T3" });
+
+    expect(bus.since(second.id).map((e) => e.data)).toEqual([{ page: "c", targetId: "T3" }]);
+    // The oldest event fell out of the backlog
+    expect(bus.since(0)).toHaveLength(2);
+  });
+});
+
+describe("parseEventTypes", () => {
+  it("returns null for all events", () => {
+    expect(parseEventTypes(undefined)).toBeNull();
+    expect(parseEventTypes("")).toBeNull();
+  });
+
+  it("parses a comma-separated list", () => {
+    expect(parseEventTypes("page.closed, page.crashed")).toEqual(
+      new Set(["page.closed", "page.crashed"])
+    );
+  });
+
+  it("rejects unknown types and repeated parameters", () => {
+    expect(() => parseEventTypes("page.opened")).toThrow(EventStreamError);
+    expect(() => parseEventTypes(["page.closed", "page.crashed"])).toThrow(EventStreamError);
+  });
+});
+
+describe("parseReplayFrom", () => {
+  it("prefers Last-Event-ID over ?since", () => {
+    expect(parseReplayFrom("12", "3")).toBe(12);
+    expect(parseReplayFrom(undefined, "3")).toBe(3);
+  });
+
+  it("starts a fresh stream without a valid id", () => {
+    expect(parseReplayFrom(undefined, undefined)).toBeNull();
+    expect(parseReplayFrom("abc", undefined)).toBeNull();
+  });
+});
+
+describe("SSE wire format", () => {
+  const event: ServerEvent = {
+    id: 7,
+    type: "console.error",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    data: { page: "main", source: "console", text: "line 1\nline 2" },
+  };
+
+  it("formats one message per event", () => {
+    const message = formatSSE(event);
+    expect(message.startsWith("id: 7\nevent: console.error\ndata: ")).toBe(true);
+    expect(message.endsWith("\n\n")).toBe(true);
+    // Newlines inside the data are JSON-escaped, so the message has exactly one data line
+    expect(message.split("\n").filter((line) => line.startsWith("data:"))).toHaveLength(1);
+  });
+
+  it("round-trips through the parser across chunk boundaries", () => {
+    const onEvent = vi.fn();
+    const parse = createSSEParser(onEvent);
+    const wire = `: connected\n\n${formatSSE(event)}: ping\n\n`;
+
+    parse(wire.slice(0, 20));
+    parse(wire.slice(20, 50));
+    expect(onEvent).not.toHaveBeenCalled();
+    parse(wire.slice(50));
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEvent).toHaveBeenCalledWith(event);
+  });
+
+  it("skips messages that aren't JSON events", () => {
+    const onEvent = vi.fn();
+    createSSEParser(onEvent)("data: not json\n\n");
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe("consoleTextFromCDP", () => {
+  it("joins primitive values and object descriptions", () => {
+    expect(
+      consoleTextFromCDP([
+        { type: "string", value: "failed:" },
+        { type: "number", value: 42 },
+        { type: "object", description: "Error: boom" },
+      ])
+    ).toBe("failed: 42 Error: boom");
+  });
+});
@@ -15,7 +15,15 @@ import {
   cleanOrphanedChrome,
   type InstanceInfo,
 } from "../instance-registry.js";
-import { existsSync, readFileSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import {
+  existsSync,
+  readFileSync,
+  mkdirSync,
+  writeFileSync,
+  rmSync,
+  statSync,
+  chmodSync,
+} from "fs";
 import { join } from "path";
 
 // Use real filesystem operations against the actual instances dir for integration-like tests,
@@ -80,6 +88,22 @@ describe("instance-registry", () => {
       expect(content.label).toBe("second");
     });
 
+    it("makes a leftover 0644 file owner-only before writing the token", () => {
+      registeredPorts.push(19225);
+      const filePath = join(instancesDir, "19225.json");
+      mkdirSync(instancesDir, { recursive: true });
+      writeFileSync(filePath, "{}\n");
+      chmodSync(filePath, 0o644);
+
+      registerInstance(makeInfo({ port: 19225, authToken: "s3cret" }));
+      expect(statSync(filePath).mode & 0o777).toBe(0o600);
+
+      chmodSync(filePath, 0o644);
+      updateInstanceChromePid(19225, 4242);
+      expect(statSync(filePath).mode & 0o777).toBe(0o600);
+      expect(JSON.parse(readFileSync(filePath, "utf-8")).chromePid).toBe(4242);
+    });
+
     it("creates instances directory if it does not exist", () => {
       // This just tests it doesn't throw — the dir likely already exists
       const info = makeInfo({ port: 19224 });
@@ -275,6 +299,8 @@ describe("instance-registry", () => {
       expect(output).toContain("PORT");
       expect(output).toContain("PID");
       expect(output).toContain("MODE");
+      expect(output).toContain("PROFILE");
+      expect(output).toContain("persistent");
       expect(output).toContain("LABEL");
       expect(output).toContain("UPTIME");
       expect(output).toContain("19260");
@@ -282,6 +308,23 @@ describe("instance-registry", () => {
       expect(output).toContain("instance(s) running");
     });
 
+    it("marks ephemeral instances", () => {
+      registeredPorts.push(19262);
+      registerInstance(makeInfo({ port: 19262, ephemeral: true }));
+
+      const lines: string[] = [];
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation((...args) => {
+        lines.push(args.join(" "));
+      });
+
+      printStatusTable();
+
+      consoleSpy.mockRestore();
+
+      const line = lines.find((l) => l.includes("19262"));
+      expect(line).toContain("ephemeral");
+    });
+
     it("reports cleaned stale instances", () => {
       registeredPorts.push(19261);
       registerInstance(makeInfo({ port: 19261, pid: 2147483647 }));
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { join, resolve } from "path";
+import {
+  LaunchOptionsError,
+  chromiumArgs,
+  resolveExtensionDirs,
+  validateChromeArgs,
+  validateExecutablePath,
+} from "../launch-options.js";
+
+/**
+ * Tests for Chromium launch customization.
+ *
+ * The server needs its own debugging port and profile to work at all, so user
+ * switches must not override them, and a typo in an extension path should fail
+ * at startup rather than launch a browser silently missing the extension.
+ */
+
+describe("validateChromeArgs", () => {
+  it("accepts switches with and without values", () => {
+    expect(validateChromeArgs(["--lang=de", "--disable-gpu"])).toEqual([
+      "--lang=de",
+      "--disable-gpu",
+    ]);
+  });
+
+  it("rejects values that aren't switches", () => {
+    expect(() => validateChromeArgs(["lang=de"])).toThrow(LaunchOptionsError);
+  });
+
+  it("rejects switches the server sets itself", () => {
+    expect(() => validateChromeArgs(["--remote-debugging-port=1234"])).toThrow(/set by the server/);
+    expect(() => validateChromeArgs(["--user-data-dir=/tmp/x"])).toThrow(/set by the server/);
+  });
+});
+
+describe("resolveExtensionDirs", () => {
+  it("resolves directories containing a manifest", () => {
+    const exists = (path: string) => path === join(resolve("ext"), "manifest.json");
+    expect(resolveExtensionDirs(["ext"], exists)).toEqual([resolve("ext")]);
+  });
+
+  it("rejects directories without a manifest", () => {
+    expect(() => resolveExtensionDirs(["missing"], () => false)).toThrow(/no manifest\.json/);
+  });
+});
+
+describe("validateExecutablePath", () => {
+  it("rejects missing executables", () => {
+    expect(() => validateExecutablePath("/nonexistent/chrome")).toThrow(/not found/);
+  });
+
+  it("rejects directories", () => {
+    expect(() => validateExecutablePath(import.meta.dirname)).toThrow(LaunchOptionsError);
+  });
+});
+
+describe("chromiumArgs", () => {
+  it("only sets the debugging port by default", () => {
+    expect(chromiumArgs({ cdpPort: 9223 })).toEqual(["--remote-debugging-port=9223"]);
+  });
+
+  it("allows the listed extensions and appends extra switches last", () => {
+    expect(
+      chromiumArgs({ cdpPort: 9223, chromeArgs: ["--lang=de"], extensions: ["/a", "/b"] })
+    ).toEqual([
+      "--remote-debugging-port=9223",
+      "--disable-extensions-except=/a,/b",
+      "--load-extension=/a,/b",
+      "--lang=de",
+    ]);
+  });
+});
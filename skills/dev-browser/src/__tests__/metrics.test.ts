@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  UNMATCHED_ROUTE,
+  createHttpMetrics,
+  findDebuggingPortProcess,
+  formatPrometheus,
+  healthMetrics,
+  jsHeapFromMetrics,
+  parseCpuTime,
+  parseProcessList,
+  processTreeStats,
+} from "../metrics.js";
+import type { HealthResponse } from "../types";
+
+/**
+ * Tests for GET /health and GET /metrics.
+ *
+ * Long-lived agent browsers are monitored through these endpoints, so the
+ * Prometheus output has to parse, histograms have to be cumulative, and
+ * browser memory has to include the renderer processes where pages live.
+ */
+
+describe("createHttpMetrics", () => {
+  it("summarizes requests per route", () => {
+    const http = createHttpMetrics();
+    http.observe("GET", "/pages/:name", 200, 0.01);
+    http.observe("GET", "/pages/:name", 500, 0.03);
+    http.observe("GET", UNMATCHED_ROUTE, 404, 0.001);
+
+    expect(http.stats()).toEqual([
+      { method: "GET", route: "/pages/:name", requests: 2, errors: 1, meanMs: 20 },
+      { method: "GET", route: "unmatched", requests: 1, errors: 0, meanMs: 1 },
+    ]);
+  });
+
+  it("exports status counters and cumulative duration buckets", () => {
+    const http = createHttpMetrics();
+    http.observe("POST", "/pages", 200, 0.004);
+    http.observe("POST", "/pages", 200, 0.2);
+    http.observe("POST", "/pages", 200, 60);
+
+    const text = formatPrometheus(http.families());
+    expect(text).toContain(
+      'dev_browser_http_requests_total{method="POST",route="/pages",status="200"} 3'
+    );
+    expect(text).toContain(
+      'dev_browser_http_request_duration_seconds_bucket{method="POST",route="/pages",le="0.005"} 1'
+    );
+    expect(text).toContain(
+      'dev_browser_http_request_duration_seconds_bucket{method="POST",route="/pages",le="30"} 2'
+    );
+    expect(text).toContain(
+      'dev_browser_http_request_duration_seconds_bucket{method="POST",route="/pages",le="+Inf"} 3'
+    );
+    expect(text).toContain(
+      'dev_browser_http_request_duration_seconds_count{method="POST",route="/pages"} 3'
+    );
+  });
+});
+
+describe("formatPrometheus", () => {
+  it("writes HELP and TYPE once per family and escapes label values", () => {
+    const text = formatPrometheus([
+      {
+        name: "dev_browser_page_js_heap_used_bytes",
+        help: "Used JS heap",
+        type: "gauge",
+        samples: [{ labels: { page: 'say "hi"\\now' }, value: 1024 }],
+      },
+      { name: "dev_browser_empty", help: "Skipped", type: "gauge", samples: [] },
+    ]);
+    expect(text).toBe(
+      "# HELP dev_browser_page_js_heap_used_bytes Used JS heap\n" +
+        "# TYPE dev_browser_page_js_heap_used_bytes gauge\n" +
+        'dev_browser_page_js_heap_used_bytes{page="say \\"hi\\"\\\\now"} 1024\n'
+    );
+  });
+});
+
+describe("healthMetrics", () => {
+  const health: HealthResponse = {
+    status: "degraded",
+    mode: "relay",
+    uptimeSeconds: 42,
+    pages: 1,
+    browser: null,
+    extension: { connected: false, pendingCommands: 2, targets: 0, clients: 1 },
+    pageMemory: [],
+    http: [],
+  };
+
+  it("reports only the sections the server has", () => {
+    const names = healthMetrics(health).map((f) => f.name);
+    expect(names).toContain("dev_browser_extension_pending_commands");
+    expect(names).not.toContain("dev_browser_browser_resident_memory_bytes");
+    expect(names).not.toContain("dev_browser_browser_restarts_total");
+
+    const text = formatPrometheus(healthMetrics(health));
+    expect(text).toContain('dev_browser_healthy{mode="relay"} 0');
+    expect(text).toContain("dev_browser_extension_connected 0");
+  });
+});
+
+describe("jsHeapFromMetrics", () => {
+  it("picks the heap sizes from Performance.getMetrics", () => {
+    expect(
+      jsHeapFromMetrics([
+        { name: "Nodes", value: 120 },
+        { name: "JSHeapUsedSize", value: 1000 },
+        { name: "JSHeapTotalSize", value: 4000 },
+      ])
+    ).toEqual({ jsHeapUsedBytes: 1000, jsHeapTotalBytes: 4000 });
+    expect(jsHeapFromMetrics([{ name: "Nodes", value: 120 }])).toBeNull();
+  });
+});
+
+describe("process stats", () => {
+  const ps = [
+    "  100     1  2048 00:01:00 /usr/bin/node start-server.ts",
+    "  200   100 10240 00:00:30 /opt/chrome/chrome --remote-debugging-port=9223 --user-data-dir=/p",
+    "  202   201  4096 00:00:05 /opt/chrome/chrome --type=renderer",
+    "  201   200  1024 00:00:02 /opt/chrome/chrome --type=zygote",
+    "  300     1   512 1-00:00:00 /opt/chrome/chrome --remote-debugging-port=9333",
+    "garbage",
+  ].join("\n");
+
+  it("parses ps output", () => {
+    const processes = parseProcessList(ps);
+    expect(processes).toHaveLength(5);
+    expect(processes[1]).toMatchObject({ pid: 200, ppid: 100, rssBytes: 10240 * 1024 });
+  });
+
+  it("parses Linux and macOS CPU times", () => {
+    expect(parseCpuTime("00:01:05")).toBe(65);
+    expect(parseCpuTime("2-01:00:00")).toBe(2 * 86400 + 3600);
+    expect(parseCpuTime("3:04.50")).toBe(184.5);
+    expect(parseCpuTime("n/a")).toBeNull();
+  });
+
+  it("sums the whole process tree, even when children are listed first", () => {
+    expect(processTreeStats(parseProcessList(ps), 200)).toEqual({
+      pid: 200,
+      processes: 3,
+      rssBytes: (10240 + 4096 + 1024) * 1024,
+      cpuSeconds: 37,
+    });
+    expect(processTreeStats(parseProcessList(ps), 999)).toBeNull();
+  });
+
+  it("finds the browser process by its debugging port", () => {
+    const processes = parseProcessList(ps);
+    expect(findDebuggingPortProcess(processes, 9223)?.pid).toBe(200);
+    expect(findDebuggingPortProcess(processes, 922)).toBeUndefined();
+  });
+});
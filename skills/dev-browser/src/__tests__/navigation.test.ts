@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { classifyNavigationError } from "../navigation.js";
+
+/**
+ * Tests for navigation error classification.
+ *
+ * Agents decide whether to retry a navigation based on `kind` and `retryable`,
+ * so the mapping from Playwright's error strings must be stable.
+ */
+
+function playwrightError(message: string, name = "Error"): Error {
+  const err = new Error(message);
+  err.name = name;
+  return err;
+}
+
+describe("classifyNavigationError", () => {
+  it("classifies DNS failures", () => {
+    const result = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.invalid/")
+    );
+    expect(result).toEqual({
+      kind: "dns",
+      code: "net::ERR_NAME_NOT_RESOLVED",
+      message: "page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.invalid/",
+      retryable: true,
+    });
+  });
+
+  it("classifies certificate and SSL errors as tls (not retryable)", () => {
+    const cert = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_CERT_AUTHORITY_INVALID at https://self-signed/")
+    );
+    expect(cert.kind).toBe("tls");
+    expect(cert.retryable).toBe(false);
+
+    const ssl = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_SSL_PROTOCOL_ERROR at https://x/")
+    );
+    expect(ssl.kind).toBe("tls");
+    expect(ssl.code).toBe("net::ERR_SSL_PROTOCOL_ERROR");
+  });
+
+  it("classifies connection errors", () => {
+    const result = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_CONNECTION_REFUSED at http://localhost:1/")
+    );
+    expect(result.kind).toBe("connection");
+    expect(result.retryable).toBe(true);
+  });
+
+  it("classifies Playwright timeouts", () => {
+    const result = classifyNavigationError(
+      playwrightError("page.goto: Timeout 30000ms exceeded.", "TimeoutError")
+    );
+    expect(result.kind).toBe("timeout");
+    expect(result.code).toBeUndefined();
+    expect(result.retryable).toBe(true);
+  });
+
+  it("classifies aborted navigations", () => {
+    const result = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_ABORTED at https://example.com/file.zip")
+    );
+    expect(result.kind).toBe("aborted");
+    expect(result.retryable).toBe(false);
+  });
+
+  it("keeps unknown net codes with kind other", () => {
+    const result = classifyNavigationError(
+      playwrightError("page.goto: net::ERR_BLOCKED_BY_CLIENT at https://ads.example/")
+    );
+    expect(result.kind).toBe("other");
+    expect(result.code).toBe("net::ERR_BLOCKED_BY_CLIENT");
+  });
+
+  it("strips Playwright's call log from the message", () => {
+    const result = classifyNavigationError(
+      playwrightError(
+        'page.goto: net::ERR_NAME_NOT_RESOLVED at https://x/\nCall log:\n  - navigating to "https://x/"'
+      )
+    );
+    expect(result.message).toBe("page.goto: net::ERR_NAME_NOT_RESOLVED at https://x/");
+  });
+
+  it("handles non-Error values", () => {
+    const result = classifyNavigationError("boom");
+    expect(result).toEqual({ kind: "other", code: undefined, message: "boom", retryable: false });
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseNetworkFilter,
+  matchesNetworkFilter,
+  timingFromResourceTiming,
+  captureBody,
+  headerList,
+  toHar,
+  NetworkFilterError,
+} from "../network-log.js";
+import type { NetworkEntry } from "../types.js";
+
+/**
+ * Tests for the per-page network log helpers.
+ *
+ * The HAR export is consumed by external tools (DevTools, HAR viewers,
+ * proxies), so it must follow the HAR 1.2 shape. Filters are hand-typed in
+ * query strings and must reject garbage with a clear message.
+ */
+
+function entry(overrides: Partial<NetworkEntry> = {}): NetworkEntry {
+  return {
+    seq: 1,
+    method: "GET",
+    url: "https://api.example.com/items?page=2",
+    resourceType: "fetch",
+    status: 200,
+    statusText: "OK",
+    mimeType: "application/json",
+    requestHeaders: [{ name: "accept", value: "application/json" }],
+    responseHeaders: [{ name: "content-type", value: "application/json" }],
+    startedAt: "2026-01-01T00:00:00.000Z",
+    durationMs: 120,
+    timing: { dns: 5, connect: 20, ssl: 10, wait: 80, receive: 15 },
+    ...overrides,
+  };
+}
+
+describe("parseNetworkFilter", () => {
+  it("returns an empty filter for an empty query", () => {
+    expect(parseNetworkFilter({})).toEqual({});
+  });
+
+  it("parses url, method and exact status", () => {
+    expect(parseNetworkFilter({ url: "/api/", method: "post", status: "404" })).toEqual({
+      url: "/api/",
+      method: "POST",
+      status: { exact: 404 },
+    });
+  });
+
+  it("parses status classes", () => {
+    expect(parseNetworkFilter({ status: "5xx" })).toEqual({ status: { class: 5 } });
+  });
+
+  it("rejects invalid status values", () => {
+    expect(() => parseNetworkFilter({ status: "abc" })).toThrow(NetworkFilterError);
+    expect(() => parseNetworkFilter({ status: "999" })).toThrow("Invalid status");
+  });
+});
+
+describe("matchesNetworkFilter", () => {
+  it("matches url substrings case-insensitively", () => {
+    expect(matchesNetworkFilter(entry(), { url: "API.EXAMPLE" })).toBe(true);
+    expect(matchesNetworkFilter(entry(), { url: "other.com" })).toBe(false);
+  });
+
+  it("matches method", () => {
+    expect(matchesNetworkFilter(entry(), { method: "GET" })).toBe(true);
+    expect(matchesNetworkFilter(entry(), { method: "POST" })).toBe(false);
+  });
+
+  it("matches exact status and status class", () => {
+    expect(matchesNetworkFilter(entry({ status: 404 }), { status: { exact: 404 } })).toBe(true);
+    expect(matchesNetworkFilter(entry({ status: 404 }), { status: { class: 4 } })).toBe(true);
+    expect(matchesNetworkFilter(entry({ status: 200 }), { status: { class: 4 } })).toBe(false);
+  });
+
+  it("never matches failed requests against a status filter", () => {
+    expect(matchesNetworkFilter(entry({ status: null }), { status: { class: 4 } })).toBe(false);
+  });
+});
+
+describe("timingFromResourceTiming", () => {
+  it("computes per-phase durations", () => {
+    expect(
+      timingFromResourceTiming({
+        startTime: 1700000000000,
+        domainLookupStart: 1,
+        domainLookupEnd: 6,
+        connectStart: 6,
+        secureConnectionStart: 10,
+        connectEnd: 26,
+        requestStart: 27,
+        responseStart: 107,
+        responseEnd: 122,
+      })
+    ).toEqual({ dns: 5, connect: 20, ssl: 16, wait: 80, receive: 15 });
+  });
+
+  it("uses -1 for unavailable connection phases and 0 for missing wait/receive", () => {
+    expect(
+      timingFromResourceTiming({
+        startTime: 1700000000000,
+        domainLookupStart: -1,
+        domainLookupEnd: -1,
+        connectStart: -1,
+        secureConnectionStart: -1,
+        connectEnd: -1,
+        requestStart: -1,
+        responseStart: -1,
+        responseEnd: -1,
+      })
+    ).toEqual({ dns: -1, connect: -1, ssl: -1, wait: 0, receive: 0 });
+  });
+});
+
+describe("captureBody", () => {
+  it("returns undefined when capture is disabled", () => {
+    expect(captureBody(Buffer.from("hello"), "text/plain", 0)).toBeUndefined();
+  });
+
+  it("stores text bodies as utf-8", () => {
+    expect(captureBody(Buffer.from('{"a":1}'), "application/json; charset=utf-8", 100)).toEqual({
+      text: '{"a":1}',
+      size: 7,
+      truncated: false,
+    });
+  });
+
+  it("stores binary bodies as base64", () => {
+    const body = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    expect(captureBody(body, "image/png", 100)).toEqual({
+      text: body.toString("base64"),
+      encoding: "base64",
+      size: 4,
+      truncated: false,
+    });
+  });
+
+  it("truncates bodies over the limit and keeps the original size", () => {
+    expect(captureBody(Buffer.from("abcdefgh"), "text/plain", 3)).toEqual({
+      text: "abc",
+      size: 8,
+      truncated: true,
+    });
+  });
+});
+
+describe("headerList", () => {
+  it("converts a header record to name/value pairs", () => {
+    expect(headerList({ a: "1", b: "2" })).toEqual([
+      { name: "a", value: "1" },
+      { name: "b", value: "2" },
+    ]);
+  });
+});
+
+describe("toHar", () => {
+  it("produces a HAR 1.2 log with pages and entries", () => {
+    const har = toHar([
+      { name: "main", title: "Example", startedAt: "2026-01-01T00:00:00.000Z", entries: [entry()] },
+    ]);
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.creator.name).toBe("dev-browser");
+    expect(har.log.pages).toEqual([
+      {
+        startedDateTime: "2026-01-01T00:00:00.000Z",
+        id: "main",
+        title: "Example",
+        pageTimings: { onContentLoad: -1, onLoad: -1 },
+      },
+    ]);
+    expect(har.log.entries).toHaveLength(1);
+
+    const [first] = har.log.entries as Array<Record<string, any>>;
+    expect(first!.pageref).toBe("main");
+    expect(first!.time).toBe(120);
+    expect(first!.request.queryString).toEqual([{ name: "page", value: "2" }]);
+    expect(first!.response.status).toBe(200);
+    expect(first!.timings).toEqual({
+      blocked: -1,
+      dns: 5,
+      connect: 20,
+      ssl: 10,
+      send: 0,
+      wait: 80,
+      receive: 15,
+    });
+  });
+
+  it("includes captured bodies and failures", () => {
+    const har = toHar([
+      {
+        name: "main",
+        title: "",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        entries: [
+          entry({
+            method: "POST",
+            requestHeaders: [{ name: "Content-Type", value: "application/json" }],
+            requestBody: { text: '{"q":1}', size: 7, truncated: false },
+            responseBody: { text: "AAEC", encoding: "base64", size: 3, truncated: false },
+          }),
+          entry({
+            status: null,
+            statusText: "",
+            failure: "net::ERR_ABORTED",
+            durationMs: -1,
+            timing: { dns: -1, connect: -1, ssl: -1, wait: 0, receive: 0 },
+          }),
+        ],
+      },
+    ]);
+
+    const [posted, failed] = har.log.entries as Array<Record<string, any>>;
+    expect(posted!.request.postData).toEqual({ mimeType: "application/json", text: '{"q":1}' });
+    expect(posted!.response.content).toEqual({
+      size: 3,
+      mimeType: "application/json",
+      text: "AAEC",
+      encoding: "base64",
+    });
+    expect(failed!.response.status).toBe(0);
+    expect(failed!.time).toBe(0);
+    expect(failed!._failure).toBe("net::ERR_ABORTED");
+  });
+
+  it("keeps time equal to the sum of the timings", () => {
+    const har = toHar([
+      {
+        name: "main",
+        title: "",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        entries: [
+          entry({ durationMs: 150 }),
+          entry({
+            durationMs: -1,
+            timing: { dns: -1, connect: -1, ssl: -1, wait: 40, receive: 2 },
+          }),
+        ],
+      },
+    ]);
+
+    for (const harEntry of har.log.entries as Array<Record<string, any>>) {
+      const phases = ["blocked", "dns", "connect", "send", "wait", "receive"];
+      const sum = phases.reduce((total, phase) => total + Math.max(harEntry.timings[phase], 0), 0);
+      expect(harEntry.time).toBe(sum);
+    }
+    const [queued, unknown] = har.log.entries as Array<Record<string, any>>;
+    expect(queued!.time).toBe(150);
+    expect(queued!.timings.blocked).toBe(30);
+    expect(unknown!.time).toBe(42);
+  });
+
+  it("reports the HTTP version of the response", () => {
+    const har = toHar([
+      {
+        name: "main",
+        title: "",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        entries: [entry({ httpVersion: "h2" }), entry({ httpVersion: "http/1.0" }), entry()],
+      },
+    ]);
+
+    const versions = (har.log.entries as Array<Record<string, any>>).map((e) => [
+      e.request.httpVersion,
+      e.response.httpVersion,
+    ]);
+    expect(versions).toEqual([
+      ["HTTP/2.0", "HTTP/2.0"],
+      ["HTTP/1.0", "HTTP/1.0"],
+      ["HTTP/1.1", "HTTP/1.1"],
+    ]);
+  });
+});
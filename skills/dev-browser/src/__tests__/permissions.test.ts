@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePermissionList,
+  normalizeOrigin,
+  parsePermissionSpec,
+  PermissionsError,
+} from "../permissions.js";
+
+/**
+ * Tests for permission grant parsing.
+ *
+ * A typo in a permission name or origin would otherwise surface as an opaque
+ * Playwright error at startup, or silently grant nothing and leave a headless
+ * run stuck on a permission prompt.
+ */
+
+describe("parsePermissionList", () => {
+  it("accepts known permissions", () => {
+    expect(parsePermissionList(["notifications", "clipboard-read"])).toEqual([
+      "notifications",
+      "clipboard-read",
+    ]);
+  });
+
+  it("rejects unknown or missing permissions", () => {
+    expect(() => parsePermissionList(["teleport"])).toThrow(PermissionsError);
+    expect(() => parsePermissionList([])).toThrow(/non-empty/);
+    expect(() => parsePermissionList("camera")).toThrow(/non-empty/);
+  });
+});
+
+describe("normalizeOrigin", () => {
+  it("strips paths and default ports", () => {
+    expect(normalizeOrigin("https://example.com:443/login?x=1")).toBe("https://example.com");
+  });
+
+  it("keeps non-default ports", () => {
+    expect(normalizeOrigin("http://localhost:3000")).toBe("http://localhost:3000");
+  });
+
+  it("rejects non-http origins and garbage", () => {
+    expect(() => normalizeOrigin("file:///tmp")).toThrow(PermissionsError);
+    expect(() => normalizeOrigin("example.com")).toThrow(PermissionsError);
+  });
+});
+
+describe("parsePermissionSpec", () => {
+  it("parses a list without origin", () => {
+    expect(parsePermissionSpec("notifications, geolocation")).toEqual({
+      origin: undefined,
+      permissions: ["notifications", "geolocation"],
+    });
+  });
+
+  it("parses an origin-scoped list", () => {
+    expect(parsePermissionSpec("https://meet.example.com=camera,microphone")).toEqual({
+      origin: "https://meet.example.com",
+      permissions: ["camera", "microphone"],
+    });
+  });
+
+  it("rejects specs with unknown permissions", () => {
+    expect(() => parsePermissionSpec("https://example.com=camera,xray")).toThrow(/xray/);
+  });
+});
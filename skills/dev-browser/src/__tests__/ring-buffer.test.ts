@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { createRingBuffer } from "../ring-buffer.js";
+
+/**
+ * Tests for the cursor-addressable ring buffer.
+ *
+ * Console and network history rely on cursors staying valid across client
+ * reconnects, and on `dropped` being reported when history was evicted.
+ */
+
+describe("createRingBuffer", () => {
+  it("rejects invalid capacities", () => {
+    expect(() => createRingBuffer(0)).toThrow("Invalid ring buffer capacity");
+    expect(() => createRingBuffer(1.5)).toThrow("Invalid ring buffer capacity");
+  });
+
+  it("assigns increasing sequence numbers", () => {
+    const buf = createRingBuffer<string>(10);
+    expect(buf.push("a")).toBe(1);
+    expect(buf.push("b")).toBe(2);
+    expect(buf.since().items).toEqual([
+      { seq: 1, item: "a" },
+      { seq: 2, item: "b" },
+    ]);
+  });
+
+  it("returns only items after the cursor", () => {
+    const buf = createRingBuffer<string>(10);
+    buf.push("a");
+    buf.push("b");
+    buf.push("c");
+    const slice = buf.since(2);
+    expect(slice.items.map((e) => e.item)).toEqual(["c"]);
+    expect(slice.cursor).toBe(3);
+    expect(slice.dropped).toBe(false);
+  });
+
+  it("returns an empty slice when caught up", () => {
+    const buf = createRingBuffer<string>(10);
+    buf.push("a");
+    const slice = buf.since(1);
+    expect(slice.items).toEqual([]);
+    expect(slice.cursor).toBe(1);
+    expect(slice.dropped).toBe(false);
+  });
+
+  it("evicts the oldest items beyond capacity", () => {
+    const buf = createRingBuffer<number>(3);
+    for (let i = 1; i <= 5; i++) buf.push(i);
+    expect(buf.size).toBe(3);
+    expect(buf.since().items.map((e) => e.item)).toEqual([3, 4, 5]);
+  });
+
+  it("reports dropped when items after the cursor were evicted", () => {
+    const buf = createRingBuffer<number>(3);
+    for (let i = 1; i <= 5; i++) buf.push(i);
+    expect(buf.since(0).dropped).toBe(true);
+    expect(buf.since(1).dropped).toBe(true);
+    expect(buf.since(2).dropped).toBe(false);
+  });
+
+  it("does not report dropped for an empty buffer", () => {
+    const buf = createRingBuffer<number>(3);
+    expect(buf.since(0)).toEqual({ items: [], cursor: 0, dropped: false });
+  });
+
+  it("keeps sequence numbers increasing after clear", () => {
+    const buf = createRingBuffer<string>(3);
+    buf.push("a");
+    buf.push("b");
+    buf.clear();
+    expect(buf.size).toBe(0);
+    expect(buf.push("c")).toBe(3);
+    expect(buf.since(2).items).toEqual([{ seq: 3, item: "c" }]);
+  });
+});
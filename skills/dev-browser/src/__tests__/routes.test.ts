@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { parseRouteRequest, routeMatcher, applyHeaderChanges, RouteRuleError } from "../routes.js";
+
+/**
+ * Tests for server-managed routing rule validation.
+ *
+ * Rules outlive the script that created them and apply to every request of a
+ * page or context, so a malformed rule must be rejected up front with a clear
+ * 400 rather than failing inside a route handler on each request.
+ */
+
+describe("routeMatcher", () => {
+  it("passes globs through unchanged", () => {
+    expect(routeMatcher("**/api/*")).toBe("**/api/*");
+  });
+
+  it("turns /pattern/flags into a RegExp", () => {
+    const matcher = routeMatcher("/\\.png$/i");
+    expect(matcher).toBeInstanceOf(RegExp);
+    expect((matcher as RegExp).test("https://x.test/A.PNG")).toBe(true);
+  });
+
+  it("rejects invalid regexes", () => {
+    expect(() => routeMatcher("/([/")).toThrow(RouteRuleError);
+  });
+
+  it("matches the same URL every time", () => {
+    const matcher = routeMatcher("/api/i") as RegExp;
+    const url = "https://x.test/api/items";
+    expect([matcher.test(url), matcher.test(url), matcher.test(url)]).toEqual([true, true, true]);
+  });
+
+  it("rejects the stateful g and y flags", () => {
+    expect(() => routeMatcher("/api/g")).toThrow(/g or y flag/);
+    expect(() => routeMatcher("/api/y")).toThrow(RouteRuleError);
+    expect(() => parseRouteRequest({ url: "/api/gi", action: { type: "abort" } })).toThrow(
+      RouteRuleError
+    );
+  });
+});
+
+describe("parseRouteRequest", () => {
+  it("parses a fulfill rule with defaults", () => {
+    const rule = parseRouteRequest({
+      url: "**/api/user",
+      method: "get",
+      action: { type: "fulfill", body: '{"name":"test"}', contentType: "application/json" },
+    });
+    expect(rule).toEqual({
+      url: "**/api/user",
+      method: "GET",
+      action: {
+        type: "fulfill",
+        status: 200,
+        headers: undefined,
+        body: '{"name":"test"}',
+        path: undefined,
+        contentType: "application/json",
+      },
+      page: undefined,
+      context: undefined,
+    });
+  });
+
+  it("defaults abort to the generic failure code", () => {
+    const rule = parseRouteRequest({ url: "**/ads/**", action: { type: "abort" } });
+    expect(rule.action).toEqual({ type: "abort", errorCode: "failed" });
+  });
+
+  it("accepts delay and modifyHeaders actions", () => {
+    expect(parseRouteRequest({ url: "**", action: { type: "delay", ms: 500 } }).action).toEqual({
+      type: "delay",
+      ms: 500,
+    });
+    expect(
+      parseRouteRequest({
+        url: "**",
+        action: { type: "modifyHeaders", set: { "x-test": "1" }, remove: ["cookie"] },
+      }).action
+    ).toEqual({ type: "modifyHeaders", set: { "x-test": "1" }, remove: ["cookie"] });
+  });
+
+  it("requires a url and a known action", () => {
+    expect(() => parseRouteRequest({ action: { type: "abort" } })).toThrow("url is required");
+    expect(() => parseRouteRequest({ url: "**" })).toThrow("action is required");
+    expect(() => parseRouteRequest({ url: "**", action: { type: "redirect" } })).toThrow(
+      RouteRuleError
+    );
+  });
+
+  it("rejects invalid action parameters", () => {
+    expect(() => parseRouteRequest({ url: "**", action: { type: "fulfill", status: 42 } })).toThrow(
+      /status/
+    );
+    expect(() =>
+      parseRouteRequest({ url: "**", action: { type: "fulfill", body: "a", path: "b" } })
+    ).toThrow(/either body or path/);
+    expect(() =>
+      parseRouteRequest({ url: "**", action: { type: "abort", errorCode: "nope" } })
+    ).toThrow(/errorCode/);
+    expect(() => parseRouteRequest({ url: "**", action: { type: "delay", ms: -1 } })).toThrow(
+      /delay/
+    );
+    expect(() =>
+      parseRouteRequest({ url: "**", action: { type: "modifyHeaders", remove: "cookie" } })
+    ).toThrow(/remove/);
+  });
+
+  it("rejects rules scoped to both a page and a context", () => {
+    expect(() =>
+      parseRouteRequest({ url: "**", page: "main", context: "admin", action: { type: "abort" } })
+    ).toThrow(/either a page or a context/);
+  });
+});
+
+describe("applyHeaderChanges", () => {
+  it("adds, replaces and removes headers case-insensitively", () => {
+    expect(
+      applyHeaderChanges(
+        { Accept: "text/html", Cookie: "a=1", "X-Old": "1" },
+        { "x-old": "2", "x-new": "3" },
+        ["cookie"]
+      )
+    ).toEqual({ Accept: "text/html", "x-old": "2", "x-new": "3" });
+  });
+
+  it("returns headers unchanged without modifications", () => {
+    expect(applyHeaderChanges({ a: "1" })).toEqual({ a: "1" });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseScreenshotQuery,
+  screenshotQueryString,
+  ScreenshotOptionsError,
+} from "../screenshot.js";
+
+/**
+ * Tests for screenshot query parsing.
+ *
+ * GET /pages/:name/screenshot is used from shell tools with hand-written
+ * query strings, so invalid input must produce a clear 400 instead of a
+ * Playwright error deep inside page.screenshot().
+ */
+
+describe("parseScreenshotQuery", () => {
+  it("returns empty options for an empty query", () => {
+    expect(parseScreenshotQuery({})).toEqual({});
+  });
+
+  it("parses fullPage", () => {
+    expect(parseScreenshotQuery({ fullPage: "true" })).toEqual({ fullPage: true });
+    expect(parseScreenshotQuery({ fullPage: "false" })).toEqual({ fullPage: false });
+  });
+
+  it("rejects invalid fullPage", () => {
+    expect(() => parseScreenshotQuery({ fullPage: "yes" })).toThrow(ScreenshotOptionsError);
+  });
+
+  it("parses format and normalizes jpg to jpeg", () => {
+    expect(parseScreenshotQuery({ format: "png" })).toEqual({ format: "png" });
+    expect(parseScreenshotQuery({ format: "JPG" })).toEqual({ format: "jpeg" });
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => parseScreenshotQuery({ format: "gif" })).toThrow("Must be png or jpeg");
+  });
+
+  it("parses quality for jpeg", () => {
+    expect(parseScreenshotQuery({ format: "jpeg", quality: "80" })).toEqual({
+      format: "jpeg",
+      quality: 80,
+    });
+  });
+
+  it("rejects quality without jpeg", () => {
+    expect(() => parseScreenshotQuery({ quality: "80" })).toThrow("format=jpeg");
+  });
+
+  it("rejects out-of-range quality", () => {
+    expect(() => parseScreenshotQuery({ format: "jpeg", quality: "101" })).toThrow(
+      "between 0 and 100"
+    );
+  });
+
+  it("parses clip", () => {
+    expect(parseScreenshotQuery({ clip: "10,20,300,400" })).toEqual({
+      clip: { x: 10, y: 20, width: 300, height: 400 },
+    });
+  });
+
+  it("rejects malformed clip", () => {
+    expect(() => parseScreenshotQuery({ clip: "10,20,300" })).toThrow("x,y,width,height");
+    expect(() => parseScreenshotQuery({ clip: "0,0,0,100" })).toThrow("must be positive");
+  });
+
+  it("parses ref", () => {
+    expect(parseScreenshotQuery({ ref: "e5" })).toEqual({ ref: "e5" });
+  });
+
+  it("rejects ref combined with clip or fullPage", () => {
+    expect(() => parseScreenshotQuery({ ref: "e5", fullPage: "true" })).toThrow(
+      "cannot be combined"
+    );
+    expect(() => parseScreenshotQuery({ ref: "e5", clip: "0,0,10,10" })).toThrow(
+      "cannot be combined"
+    );
+  });
+
+  it("ignores non-string query values", () => {
+    expect(parseScreenshotQuery({ fullPage: ["true", "false"] })).toEqual({});
+  });
+});
+
+describe("screenshotQueryString", () => {
+  it("round-trips through parseScreenshotQuery", () => {
+    const options = {
+      fullPage: true,
+      format: "jpeg" as const,
+      quality: 60,
+      clip: { x: 0, y: 0, width: 100, height: 50 },
+    };
+    const query = Object.fromEntries(new URLSearchParams(screenshotQueryString(options)));
+    expect(parseScreenshotQuery(query)).toEqual(options);
+  });
+
+  it("returns an empty string for no options", () => {
+    expect(screenshotQueryString({})).toBe("");
+  });
+});
@@ -27,6 +27,10 @@ const mockContext = {
   newPage: vi.fn().mockResolvedValue(mockPage),
   newCDPSession: vi.fn().mockResolvedValue(mockCDPSession),
   close: vi.fn(),
+  once: vi.fn(),
+  grantPermissions: vi.fn(),
+  clearCookies: vi.fn(),
+  addCookies: vi.fn(),
   browser: vi.fn().mockReturnValue({
     process: vi.fn().mockReturnValue({ pid: 99999 }),
   }),
@@ -34,10 +38,25 @@ const mockContext = {
 
 const mockLaunchPersistentContext = vi.fn().mockResolvedValue(mockContext);
 
+// Firefox and WebKit run as a Playwright browser server that serve() connects to
+const mockBrowserServer = {
+  process: vi.fn().mockReturnValue({ pid: 99998 }),
+  wsEndpoint: vi.fn().mockReturnValue("ws://127.0.0.1:19231/mock-guid"),
+  close: vi.fn(),
+  kill: vi.fn(),
+};
+
+const mockLaunchServer = vi.fn().mockResolvedValue(mockBrowserServer);
+const mockConnect = vi.fn().mockResolvedValue({ contexts: () => [mockContext] });
+
 vi.mock("playwright", () => ({
   chromium: {
     launchPersistentContext: (...args: unknown[]) => mockLaunchPersistentContext(...args),
   },
+  firefox: {
+    launchServer: (...args: unknown[]) => mockLaunchServer(...args),
+    connect: (...args: unknown[]) => mockConnect(...args),
+  },
 }));
 
 // Mock express
@@ -55,6 +74,7 @@ vi.mock("express", () => {
     get: vi.fn(),
     post: vi.fn(),
     delete: vi.fn(),
+    patch: vi.fn(),
     listen: (...args: unknown[]) => mockListen(...(args as [number, () => void])),
   };
   const expressFn = () => app;
@@ -77,6 +97,8 @@ vi.stubGlobal(
 // Mock fs to avoid creating real directories or writing instance registry files
 vi.mock("fs", () => ({
   mkdirSync: vi.fn(),
+  mkdtempSync: vi.fn((prefix: string) => `${prefix}mock`),
+  rmSync: vi.fn(),
   writeFileSync: vi.fn(),
   readFileSync: vi.fn(),
   unlinkSync: vi.fn(),
@@ -125,4 +147,180 @@ describe("serve() defaults", () => {
 
     await server.stop();
   });
+
+  it("launches ephemeral runs from a temp profile and deletes it on stop", async () => {
+    const fs = await import("fs");
+    const { serve } = await import("../index.js");
+    const server = await serve({ port: 19228, cdpPort: 19229, ephemeral: true });
+
+    const [userDataDir] = mockLaunchPersistentContext.mock.calls[0]!;
+    expect(userDataDir).toMatch(/dev-browser-mock[\\/]browser-data$/);
+    expect(fs.mkdirSync).toHaveBeenCalledWith(userDataDir);
+
+    await server.stop();
+    expect(fs.rmSync).toHaveBeenCalledWith(expect.stringMatching(/dev-browser-mock$/), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it("passes Chromium switches and ignoreHTTPSErrors to the launch", async () => {
+    const { serve } = await import("../index.js");
+    const server = await serve({
+      port: 19232,
+      cdpPort: 19233,
+      chromeArgs: ["--lang=de"],
+      ignoreHTTPSErrors: true,
+    });
+
+    const [, options] = mockLaunchPersistentContext.mock.calls[0]!;
+    expect(options.args).toEqual(["--remote-debugging-port=19233", "--lang=de"]);
+    expect(options.ignoreHTTPSErrors).toBe(true);
+
+    await server.stop();
+  });
+
+  it("launches the browser behind the configured proxy", async () => {
+    const { serve } = await import("../index.js");
+    const proxy = { server: "http://proxy.internal:3128", username: "u", password: "p" };
+    const server = await serve({ port: 19236, cdpPort: 19237, proxy });
+
+    const [, options] = mockLaunchPersistentContext.mock.calls[0]!;
+    expect(options.proxy).toEqual(proxy);
+
+    await server.stop();
+  });
+
+  it("rejects Chromium launch options for other engines", async () => {
+    const { serve } = await import("../index.js");
+    await expect(
+      serve({ port: 19234, cdpPort: 19235, browser: "firefox", chromeArgs: ["--lang=de"] })
+    ).rejects.toThrow(/require chromium/);
+    expect(mockLaunchServer).not.toHaveBeenCalled();
+  });
+
+  it("serves firefox over a Playwright browser server instead of CDP", async () => {
+    const { serve } = await import("../index.js");
+    const server = await serve({ port: 19230, cdpPort: 19231, browser: "firefox" });
+
+    expect(mockLaunchPersistentContext).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+    const [options] = mockLaunchServer.mock.calls[0]!;
+    expect(options).toMatchObject({
+      headless: true,
+      host: "127.0.0.1",
+      port: 19231,
+      _sharedBrowser: true,
+    });
+    expect(options._userDataDir).toMatch(/browser-data-firefox$/);
+    expect(mockConnect).toHaveBeenCalledWith("ws://127.0.0.1:19231/mock-guid");
+    expect(server.wsEndpoint).toBe("ws://127.0.0.1:19231/mock-guid");
+
+    await server.stop();
+    expect(mockBrowserServer.close).toHaveBeenCalled();
+  });
+
+  it("closes the browser when a startup permission grant fails", async () => {
+    mockContext.grantPermissions.mockRejectedValueOnce(new Error("Unknown permission: nope"));
+    const { serve } = await import("../index.js");
+    await expect(
+      serve({ port: 19240, cdpPort: 19241, grantPermissions: ["https://example.com=nope"] })
+    ).rejects.toThrow(/Failed to grant permissions "https:\/\/example.com=nope"/);
+    expect(mockContext.close).toHaveBeenCalled();
+    expect(mockListen).not.toHaveBeenCalled();
+  });
+
+  it("closes the browser when the startup checkpoint can't be restored", async () => {
+    const fs = await import("fs");
+    vi.mocked(fs.existsSync).mockReturnValueOnce(true);
+    vi.mocked(fs.readFileSync).mockReturnValueOnce(
+      JSON.stringify({ version: 1, name: "login", cookies: [], origins: [], pages: [] })
+    );
+    mockContext.clearCookies.mockRejectedValueOnce(new Error("Target closed"));
+    const { serve } = await import("../index.js");
+    await expect(
+      serve({ port: 19246, cdpPort: 19247, restoreCheckpoint: "login" })
+    ).rejects.toThrow('Failed to restore checkpoint "login": Target closed');
+    expect(mockContext.close).toHaveBeenCalled();
+    expect(mockListen).not.toHaveBeenCalled();
+  });
+
+  it("relaunches the browser with the same profile and port after a crash", async () => {
+    const express = await import("express");
+    const { serve } = await import("../index.js");
+    const server = await serve({ port: 19238, cdpPort: 19239 });
+
+    // Playwright closes the persistent context when the browser process dies
+    const [event, onClose] = mockContext.once.mock.calls[0]!;
+    expect(event).toBe("close");
+    onClose();
+    await vi.waitFor(() => expect(mockContext.once).toHaveBeenCalledTimes(2));
+
+    const [firstDir, firstOptions] = mockLaunchPersistentContext.mock.calls[0]!;
+    const [secondDir, secondOptions] = mockLaunchPersistentContext.mock.calls[1]!;
+    expect(secondDir).toBe(firstDir);
+    expect(secondOptions.args).toEqual(firstOptions.args);
+
+    const app = vi.mocked(express.default)() as unknown as { get: ReturnType<typeof vi.fn> };
+    const [, getInfo] = app.get.mock.calls.find(([path]) => path === "/")!;
+    const json = vi.fn();
+    getInfo({}, { json });
+    expect(json.mock.calls[0]![0].restarts).toBe(1);
+
+    await server.stop();
+  });
+
+  it("closes the old Playwright connection before relaunching", async () => {
+    const connection = { contexts: () => [mockContext], close: vi.fn() };
+    mockConnect.mockResolvedValueOnce(connection);
+    const { serve } = await import("../index.js");
+    const server = await serve({ port: 19242, cdpPort: 19243, browser: "firefox" });
+
+    const [, onClose] = mockContext.once.mock.calls[0]!;
+    onClose();
+    await vi.waitFor(() => expect(mockContext.once).toHaveBeenCalledTimes(2));
+
+    expect(connection.close).toHaveBeenCalled();
+    expect(mockBrowserServer.close).toHaveBeenCalled();
+    expect(mockLaunchServer).toHaveBeenCalledTimes(2);
+
+    await server.stop();
+  });
+
+  it("keeps the network log's CDP session when emulation is cleared", async () => {
+    const express = await import("express");
+    const { serve } = await import("../index.js");
+    const server = await serve({ port: 19244, cdpPort: 19245 });
+
+    const pageWithContext = Object.assign(mockPage, { context: () => mockContext });
+    mockContext.newPage.mockResolvedValueOnce(pageWithContext);
+    const networkSession = { on: vi.fn(), send: vi.fn(), detach: vi.fn() };
+    mockContext.newCDPSession
+      .mockResolvedValueOnce(mockCDPSession) // target id lookup
+      .mockResolvedValueOnce(networkSession);
+
+    const app = vi.mocked(express.default)() as unknown as {
+      post: ReturnType<typeof vi.fn>;
+      delete: ReturnType<typeof vi.fn>;
+    };
+    const handler = (method: "post" | "delete", path: string) =>
+      app[method].mock.calls.find(([route]) => route === path)![1];
+    const res = () => ({ status: vi.fn().mockReturnThis(), json: vi.fn() });
+
+    await handler("post", "/pages")({ body: { name: "har" } }, res());
+    expect(networkSession.on).toHaveBeenCalledWith(
+      "Network.responseReceived",
+      expect.any(Function)
+    );
+
+    await handler("post", "/pages/:name/emulation")(
+      { params: { name: "har" }, body: { timezoneId: "Europe/Berlin" } },
+      res()
+    );
+    await handler("delete", "/pages/:name/emulation")({ params: { name: "har" } }, res());
+    expect(mockCDPSession.detach).toHaveBeenCalled();
+    expect(networkSession.detach).not.toHaveBeenCalled();
+
+    await server.stop();
+  });
 });
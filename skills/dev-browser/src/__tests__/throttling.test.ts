@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseThrottlingRequest,
+  DEFAULT_THROTTLING,
+  NETWORK_PROFILES,
+  ThrottlingError,
+} from "../throttling.js";
+
+/**
+ * Tests for network/CPU throttling requests.
+ *
+ * Throttling persists on a page across script runs, so partial updates must
+ * keep the other setting intact and bad values must never reach Chrome.
+ */
+
+describe("parseThrottlingRequest", () => {
+  it("applies a named network profile", () => {
+    expect(parseThrottlingRequest({ network: "slow-3g" }, DEFAULT_THROTTLING)).toEqual({
+      network: "slow-3g",
+      conditions: NETWORK_PROFILES["slow-3g"],
+      cpuRate: 1,
+    });
+  });
+
+  it("emulates offline", () => {
+    const result = parseThrottlingRequest({ network: "offline" }, DEFAULT_THROTTLING);
+    expect(result.conditions?.offline).toBe(true);
+  });
+
+  it("converts custom kbit/s values to bytes/s", () => {
+    const result = parseThrottlingRequest(
+      { network: { latency: 100, downloadKbps: 800, uploadKbps: -1 } },
+      DEFAULT_THROTTLING
+    );
+    expect(result.network).toBe("custom");
+    expect(result.conditions).toEqual({
+      offline: false,
+      latency: 100,
+      downloadThroughput: 100_000,
+      uploadThroughput: -1,
+    });
+  });
+
+  it("keeps fields that are not in the request", () => {
+    const throttled = parseThrottlingRequest({ network: "fast-3g" }, DEFAULT_THROTTLING);
+    const result = parseThrottlingRequest({ cpuRate: 4 }, throttled);
+    expect(result).toEqual({
+      network: "fast-3g",
+      conditions: NETWORK_PROFILES["fast-3g"],
+      cpuRate: 4,
+    });
+  });
+
+  it("removes network throttling with none or null", () => {
+    const throttled = parseThrottlingRequest(
+      { network: "slow-3g", cpuRate: 2 },
+      DEFAULT_THROTTLING
+    );
+    expect(parseThrottlingRequest({ network: "none" }, throttled)).toEqual({
+      network: null,
+      conditions: null,
+      cpuRate: 2,
+    });
+    expect(parseThrottlingRequest({ network: null }, throttled).conditions).toBeNull();
+  });
+
+  it("rejects unknown profiles and bad custom values", () => {
+    expect(() => parseThrottlingRequest({ network: "5g" }, DEFAULT_THROTTLING)).toThrow(
+      ThrottlingError
+    );
+    expect(() =>
+      parseThrottlingRequest(
+        { network: { latency: -5, downloadKbps: 100, uploadKbps: 100 } },
+        DEFAULT_THROTTLING
+      )
+    ).toThrow(/latency/);
+    expect(() =>
+      parseThrottlingRequest(
+        { network: { latency: 0, downloadKbps: 0, uploadKbps: 100 } },
+        DEFAULT_THROTTLING
+      )
+    ).toThrow(/downloadKbps/);
+  });
+
+  it("rejects names inherited from Object.prototype", () => {
+    for (const network of ["constructor", "toString", "__proto__"]) {
+      expect(() => parseThrottlingRequest({ network }, DEFAULT_THROTTLING)).toThrow(
+        ThrottlingError
+      );
+    }
+  });
+
+  it("rejects CPU rates below 1 or above the maximum", () => {
+    expect(() => parseThrottlingRequest({ cpuRate: 0.5 }, DEFAULT_THROTTLING)).toThrow(/cpuRate/);
+    expect(() => parseThrottlingRequest({ cpuRate: 1000 }, DEFAULT_THROTTLING)).toThrow(/cpuRate/);
+  });
+});
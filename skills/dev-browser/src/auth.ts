@@ -0,0 +1,69 @@
+/**
+ * Bearer-token authentication for dev-browser-skill servers.
+ *
+ * When an auth token is configured, every HTTP route and the relay's /cdp
+ * WebSocket upgrade require either:
+ * - An `Authorization: Bearer <token>` header, or
+ * - A `?token=<token>` query parameter (for WebSocket clients that cannot set headers).
+ *   Query strings end up in proxy and access logs, so prefer the header.
+ *
+ * In launch mode the token does not cover Chrome's own --remote-debugging-port,
+ * which stays open to anything that can reach it on loopback.
+ *
+ * Comparison is constant-time to avoid leaking the token through response timing.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/** Environment variable read by the CLI and the client when no token is passed explicitly */
+export const AUTH_TOKEN_ENV = "DEV_BROWSER_AUTH_TOKEN";
+
+/**
+ * Extract the token from an Authorization header value.
+ * Returns undefined for missing or non-Bearer headers.
+ */
+export function parseBearerToken(header: string | undefined | null): string | undefined {
+  if (!header) return undefined;
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match?.[1]?.trim() || undefined;
+}
+
+/**
+ * Constant-time comparison of the expected token against a provided one.
+ */
+export function tokensMatch(expected: string, provided: string | undefined): boolean {
+  if (provided === undefined) return false;
+  const a = Buffer.from(expected, "utf-8");
+  const b = Buffer.from(provided, "utf-8");
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Check a request's credentials against the configured token.
+ * Always authorized when no token is configured.
+ */
+export function isAuthorized(
+  expected: string | undefined,
+  authorizationHeader: string | undefined | null,
+  queryToken: string | undefined | null
+): boolean {
+  if (!expected) return true;
+  if (tokensMatch(expected, parseBearerToken(authorizationHeader))) return true;
+  return tokensMatch(expected, queryToken ?? undefined);
+}
+
+/**
+ * Whether a remote address is the local machine (IPv4, IPv6 or IPv4-mapped IPv6).
+ */
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false;
+  return address === "::1" || address.startsWith("127.") || address.startsWith("::ffff:127.");
+}
+
+/**
+ * Build request headers carrying the token, or an empty object when there is none.
+ */
+export function authHeaders(token: string | undefined): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
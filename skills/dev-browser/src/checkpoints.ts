@@ -0,0 +1,280 @@
+/**
+ * Named storage-state checkpoints for the launch server.
+ *
+ * A checkpoint is a JSON file under <profileDir>/checkpoints holding a context's
+ * cookies, localStorage and IndexedDB (Playwright's storageState format) plus
+ * each named page's URL, viewport, scroll position and sessionStorage:
+ *   POST /checkpoints/:name, POST /checkpoints/:name/restore, --restore-checkpoint
+ *
+ * This module holds the file format and the scripts evaluated in the page;
+ * the server drives the browser.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { CheckpointInfo, ViewportSize } from "./types";
+
+export class CheckpointError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckpointError";
+  }
+}
+
+/** Bumped when the file format changes incompatibly */
+export const CHECKPOINT_VERSION = 1;
+
+const CHECKPOINT_NAME = /^[A-Za-z0-9_-][A-Za-z0-9._-]{0,99}$/;
+
+export interface StorageItem {
+  name: string;
+  value: string;
+}
+
+/**
+ * IndexedDB record as captured by storageState({ indexedDB: true }).
+ * Values that aren't plain JSON (Dates, Blobs, typed arrays...) are stored
+ * in Playwright's own encoding (keyEncoded / valueEncoded).
+ */
+export interface IndexedDBRecord {
+  key?: unknown;
+  keyEncoded?: unknown;
+  value?: unknown;
+  valueEncoded?: unknown;
+}
+
+export interface IndexedDBStore {
+  name: string;
+  keyPath?: string;
+  keyPathArray?: string[];
+  autoIncrement: boolean;
+  records: IndexedDBRecord[];
+  indexes: Array<{
+    name: string;
+    keyPath?: string;
+    keyPathArray?: string[];
+    multiEntry: boolean;
+    unique: boolean;
+  }>;
+}
+
+export interface IndexedDBDatabase {
+  name: string;
+  version: number;
+  stores: IndexedDBStore[];
+}
+
+export interface CheckpointOrigin {
+  origin: string;
+  localStorage: StorageItem[];
+  indexedDB?: IndexedDBDatabase[];
+}
+
+export interface CheckpointPage {
+  name: string;
+  url: string;
+  viewport: ViewportSize | null;
+  scrollX: number;
+  scrollY: number;
+  /** sessionStorage of the page's origin (it belongs to the tab, not the context) */
+  sessionStorage: StorageItem[];
+}
+
+export interface Checkpoint {
+  version: typeof CHECKPOINT_VERSION;
+  name: string;
+  /** Context the checkpoint was taken from */
+  context: string;
+  createdAt: string;
+  cookies: Array<{
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires: number;
+    httpOnly: boolean;
+    secure: boolean;
+    sameSite: "Strict" | "Lax" | "None";
+  }>;
+  origins: CheckpointOrigin[];
+  pages: CheckpointPage[];
+}
+
+/**
+ * Validate a checkpoint name. Names become file names, so only
+ * letters, digits, dot, dash and underscore are allowed.
+ */
+export function validateCheckpointName(name: unknown): string {
+  if (typeof name !== "string" || !CHECKPOINT_NAME.test(name)) {
+    throw new CheckpointError(
+      `Invalid checkpoint name "${String(name)}". Use up to 100 letters, digits, ".", "-" or "_" (not starting with ".").`
+    );
+  }
+  return name;
+}
+
+export function checkpointPath(dir: string, name: string): string {
+  return join(dir, `${validateCheckpointName(name)}.json`);
+}
+
+/**
+ * Parse a checkpoint file. Throws CheckpointError on malformed content.
+ */
+export function parseCheckpoint(content: string): Checkpoint {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new CheckpointError(`Checkpoint is not valid JSON: ${(err as Error).message}`);
+  }
+
+  const checkpoint = data as Partial<Checkpoint> | null;
+  if (!checkpoint || typeof checkpoint !== "object") {
+    throw new CheckpointError("Checkpoint must be a JSON object");
+  }
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new CheckpointError(
+      `Unsupported checkpoint version ${String(checkpoint.version)} (expected ${CHECKPOINT_VERSION})`
+    );
+  }
+  if (
+    typeof checkpoint.name !== "string" ||
+    !Array.isArray(checkpoint.cookies) ||
+    !Array.isArray(checkpoint.origins) ||
+    !Array.isArray(checkpoint.pages)
+  ) {
+    throw new CheckpointError("Checkpoint is missing name, cookies, origins or pages");
+  }
+
+  return checkpoint as Checkpoint;
+}
+
+/**
+ * Read a named checkpoint from a checkpoints directory.
+ */
+export function loadCheckpoint(dir: string, name: string): Checkpoint {
+  const path = checkpointPath(dir, name);
+  if (!existsSync(path)) {
+    throw new CheckpointError(`Checkpoint "${name}" not found in ${dir}`);
+  }
+  return parseCheckpoint(readFileSync(path, "utf-8"));
+}
+
+export function checkpointInfo(checkpoint: Checkpoint, path: string): CheckpointInfo {
+  return {
+    name: checkpoint.name,
+    context: checkpoint.context,
+    createdAt: checkpoint.createdAt,
+    path,
+    cookies: checkpoint.cookies.length,
+    origins: checkpoint.origins.length,
+    pages: checkpoint.pages.map((p) => p.name),
+  };
+}
+
+/**
+ * Drop IndexedDB records we can't write back. Encoded keys/values need
+ * Playwright's deserializer, which isn't available in the page.
+ */
+export function restorableDatabases(databases: IndexedDBDatabase[]): {
+  databases: IndexedDBDatabase[];
+  skipped: number;
+} {
+  let skipped = 0;
+  const restorable = databases.map((db) => ({
+    ...db,
+    stores: db.stores.map((store) => ({
+      ...store,
+      records: store.records.filter((record) => {
+        const plain = !("keyEncoded" in record) && !("valueEncoded" in record);
+        if (!plain) skipped++;
+        return plain;
+      }),
+    })),
+  }));
+  return { databases: restorable, skipped };
+}
+
+// ============================================================================
+// Scripts evaluated in the page (plain JS - the page has no TypeScript runtime)
+// ============================================================================
+
+/** Collects sessionStorage and scroll position. Opaque origins (about:blank) have no storage. */
+export const PAGE_STATE_EXPRESSION = `(() => {
+  let sessionStorageItems = [];
+  try {
+    sessionStorageItems = Object.keys(sessionStorage).map((name) => ({
+      name,
+      value: sessionStorage.getItem(name),
+    }));
+  } catch {}
+  return { sessionStorage: sessionStorageItems, scrollX: window.scrollX, scrollY: window.scrollY };
+})()`;
+
+/**
+ * Replace an origin's localStorage and IndexedDB with the checkpoint contents.
+ * Existing databases on the origin are deleted first. Run on a page showing the origin.
+ */
+export function restoreOriginExpression(
+  localStorageItems: StorageItem[],
+  databases: IndexedDBDatabase[]
+): string {
+  return `(async (localStorageItems, databases) => {
+  const done = (request) =>
+    new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => resolve(undefined);
+    });
+
+  localStorage.clear();
+  for (const { name, value } of localStorageItems) localStorage.setItem(name, value);
+
+  for (const { name } of await indexedDB.databases()) await done(indexedDB.deleteDatabase(name));
+  for (const db of databases) {
+    const open = indexedDB.open(db.name, db.version);
+    open.onupgradeneeded = () => {
+      for (const store of db.stores) {
+        const objectStore = open.result.createObjectStore(store.name, {
+          autoIncrement: store.autoIncrement,
+          keyPath: store.keyPathArray ?? store.keyPath,
+        });
+        for (const index of store.indexes) {
+          objectStore.createIndex(index.name, index.keyPathArray ?? index.keyPath, {
+            unique: index.unique,
+            multiEntry: index.multiEntry,
+          });
+        }
+      }
+    };
+    const connection = await done(open);
+    if (connection.objectStoreNames.length > 0) {
+      const transaction = connection.transaction(connection.objectStoreNames, "readwrite");
+      for (const store of db.stores) {
+        const objectStore = transaction.objectStore(store.name);
+        for (const record of store.records) {
+          if ("key" in record) objectStore.put(record.value, record.key);
+          else objectStore.put(record.value);
+        }
+      }
+      await new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve(undefined);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+    connection.close();
+  }
+})(${JSON.stringify(localStorageItems)}, ${JSON.stringify(databases)})`;
+}
+
+/** Replace the page's sessionStorage. Run on a page showing the target origin. */
+export function restoreSessionStorageExpression(items: StorageItem[]): string {
+  return `((items) => {
+  sessionStorage.clear();
+  for (const { name, value } of items) sessionStorage.setItem(name, value);
+})(${JSON.stringify(items)})`;
+}
+
+export function scrollExpression(scrollX: number, scrollY: number): string {
+  return `window.scrollTo(${Number(scrollX) || 0}, ${Number(scrollY) || 0})`;
+}
@@ -8,6 +8,10 @@
  *
  * Domain is REQUIRED for key-value and JSON formats.
  * Multiple --cookies flags merge; duplicate name+domain → last wins.
+ *
+ * Cookies can also be written back out (GET /cookies, --save-cookies) as JSON
+ * or Netscape text that loadCookiesFromFile() reads, and injected or deleted
+ * at runtime through POST/DELETE /cookies.
  */
 
 import { readFileSync, existsSync } from "fs";
@@ -24,6 +28,17 @@ export interface CookieParam {
   sameSite?: "Strict" | "Lax" | "None";
 }
 
+export type CookieFormat = "json" | "netscape";
+
+/** Selects cookies to delete; an empty filter selects every cookie */
+export interface CookieFilter {
+  name?: string;
+  domain?: string;
+}
+
+/** curl marks HttpOnly cookies in Netscape files with this domain prefix */
+const HTTP_ONLY_PREFIX = "#HttpOnly_";
+
 export class CookieParseError extends Error {
   constructor(message: string) {
     super(message);
@@ -206,14 +221,18 @@ function validateJsonCookie(item: unknown, index: number): CookieParam {
 /**
  * Parse a Netscape/cURL cookie text file.
  * Format: domain\tincludeSubdomains\tpath\tsecure\texpires\tname\tvalue
- * Lines starting with # are comments. Empty lines are skipped.
+ * Lines starting with # are comments, except curl's #HttpOnly_ domain prefix.
+ * Empty lines are skipped.
  */
 export function parseNetscapeCookies(content: string): CookieParam[] {
   const cookies: CookieParam[] = [];
 
   for (const rawLine of content.split("\n")) {
     // Trim spaces and carriage returns but preserve tabs (they are field separators)
-    const line = rawLine.replace(/^[ \r]+|[ \r]+$/g, "");
+    let line = rawLine.replace(/^[ \r]+|[ \r]+$/g, "");
+
+    const httpOnly = line.startsWith(HTTP_ONLY_PREFIX);
+    if (httpOnly) line = line.slice(HTTP_ONLY_PREFIX.length);
 
     // Skip empty lines and comments
     if (!line || line.startsWith("#")) continue;
@@ -243,6 +262,9 @@ export function parseNetscapeCookies(content: string): CookieParam[] {
     if (secure?.toUpperCase() === "TRUE") {
       cookie.secure = true;
     }
+    if (httpOnly) {
+      cookie.httpOnly = true;
+    }
 
     const expiresNum = Number(expires);
     if (!isNaN(expiresNum) && expiresNum > 0) {
@@ -335,15 +357,147 @@ export function parseAllCookies(cookieArgs: string[]): CookieParam[] {
 }
 
 /**
- * Generate a log-safe summary of loaded cookies.
+ * Parse the `cookies` field of a POST /cookies body: one --cookies style argument
+ * or a list of them, merged like parseAllCookies().
+ */
+export function parseCookieInput(input: unknown): CookieParam[] {
+  const args = typeof input === "string" ? [input] : input;
+  if (
+    !Array.isArray(args) ||
+    args.length === 0 ||
+    !args.every((arg) => typeof arg === "string" && arg.trim() !== "")
+  ) {
+    throw new CookieParseError(
+      '"cookies" must be a cookie string (key-value, JSON or @file) or an array of them'
+    );
+  }
+  return parseAllCookies(args);
+}
+
+/**
+ * Parse the name/domain filter of a DELETE /cookies body.
+ */
+export function parseCookieFilter(body: unknown): CookieFilter {
+  const { name, domain } = (body ?? {}) as Record<string, unknown>;
+  const filter: CookieFilter = {};
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name) {
+      throw new CookieParseError('"name" must be a non-empty string');
+    }
+    filter.name = name;
+  }
+  if (domain !== undefined) {
+    if (typeof domain !== "string" || !domain) {
+      throw new CookieParseError('"domain" must be a non-empty string');
+    }
+    filter.domain = domain;
+  }
+
+  return filter;
+}
+
+/**
+ * Select cookies matching a filter: exact name, and the domain itself or its subdomains.
+ * Parent-domain cookies are not selected, so deleting "app.example.com" leaves
+ * ".example.com" sessions alone.
+ */
+export function matchCookies<T extends { name: string; domain: string }>(
+  cookies: T[],
+  filter: CookieFilter
+): T[] {
+  const target = filter.domain?.replace(/^\./, "").toLowerCase();
+  return cookies.filter((c) => {
+    if (filter.name !== undefined && c.name !== filter.name) return false;
+    if (target === undefined) return true;
+    const cookieDomain = c.domain.replace(/^\./, "").toLowerCase();
+    return cookieDomain === target || cookieDomain.endsWith(`.${target}`);
+  });
+}
+
+/**
+ * Convert cookies read from a browser context (session cookies have expires -1).
+ */
+export function toCookieParams(
+  cookies: Array<CookieParam & { expires: number; path: string }>
+): CookieParam[] {
+  return cookies.map((c) => {
+    const cookie: CookieParam = { name: c.name, value: c.value, domain: c.domain, path: c.path };
+    if (c.expires > 0) cookie.expires = c.expires;
+    if (c.httpOnly) cookie.httpOnly = true;
+    if (c.secure) cookie.secure = true;
+    if (c.sameSite) cookie.sameSite = c.sameSite;
+    return cookie;
+  });
+}
+
+/**
+ * Keep cookies that apply to a domain: the domain itself, its parents and its subdomains.
+ */
+export function filterCookiesByDomain(cookies: CookieParam[], domain: string): CookieParam[] {
+  const target = domain.replace(/^\./, "").toLowerCase();
+  return cookies.filter((c) => {
+    const cookieDomain = c.domain.replace(/^\./, "").toLowerCase();
+    return (
+      cookieDomain === target ||
+      target.endsWith(`.${cookieDomain}`) ||
+      cookieDomain.endsWith(`.${target}`)
+    );
+  });
+}
+
+/**
+ * Format cookies as Netscape/cURL cookie file text.
+ * HttpOnly cookies get curl's #HttpOnly_ prefix; session cookies get expires 0.
+ */
+export function formatNetscapeCookies(cookies: CookieParam[]): string {
+  const lines = ["# Netscape HTTP Cookie File", ""];
+  for (const c of cookies) {
+    lines.push(
+      [
+        `${c.httpOnly ? HTTP_ONLY_PREFIX : ""}${c.domain}`,
+        c.domain.startsWith(".") ? "TRUE" : "FALSE",
+        c.path ?? "/",
+        c.secure ? "TRUE" : "FALSE",
+        String(Math.floor(c.expires ?? 0)),
+        c.name,
+        c.value,
+      ].join("\t")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format cookies as JSON or Netscape text.
+ */
+export function formatCookies(cookies: CookieParam[], format: CookieFormat): string {
+  return format === "json"
+    ? JSON.stringify(cookies, null, 2) + "\n"
+    : formatNetscapeCookies(cookies);
+}
+
+/**
+ * Pick the output format for a cookie file the way loadCookiesFromFile() reads it:
+ * .json → JSON, anything else → Netscape.
+ */
+export function cookieFormatForPath(filePath: string): CookieFormat {
+  return extname(filePath).toLowerCase() === ".json" ? "json" : "netscape";
+}
+
+/**
+ * Generate a log-safe summary of loaded (or deleted) cookies.
  * Shows names and domains only (never values).
  */
-export function cookieSummary(cookies: CookieParam[]): string {
-  if (cookies.length === 0) return "No cookies loaded.";
+export function cookieSummary<T extends { name: string; domain: string }>(
+  cookies: T[],
+  action = "Loaded"
+): string {
+  if (cookies.length === 0) return `No cookies ${action.toLowerCase()}.`;
 
   const domains = new Set(cookies.map((c) => c.domain));
   const lines = [
-    `Loaded ${cookies.length} cookie${cookies.length === 1 ? "" : "s"} for ${domains.size} domain${domains.size === 1 ? "" : "s"}`,
+    `${action} ${cookies.length} cookie${cookies.length === 1 ? "" : "s"} for ${domains.size} domain${domains.size === 1 ? "" : "s"}`,
   ];
 
   for (const cookie of cookies) {
@@ -0,0 +1,75 @@
+/**
+ * JavaScript dialog policy for named pages.
+ *
+ * alert(), confirm(), prompt() and beforeunload dialogs block the page until
+ * someone answers them. The launch server answers them even while no script is
+ * connected, using the page's policy (PATCH /pages/:name) or the server default.
+ * The "hold" policy leaves the dialog open until POST /pages/:name/dialogs/:id.
+ */
+
+import type { DialogPolicy, DialogRecord } from "./types";
+
+export const DIALOG_POLICIES: readonly DialogPolicy[] = [
+  "accept",
+  "dismiss",
+  "accept-with-text",
+  "hold",
+];
+
+export class DialogPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DialogPolicyError";
+  }
+}
+
+/**
+ * Validate a dialog policy value. Throws DialogPolicyError on unknown values.
+ */
+export function parseDialogPolicy(value: unknown): DialogPolicy {
+  if (typeof value === "string" && (DIALOG_POLICIES as readonly string[]).includes(value)) {
+    return value as DialogPolicy;
+  }
+  throw new DialogPolicyError(
+    `Invalid dialog policy "${String(value)}". Use one of: ${DIALOG_POLICIES.join(", ")}.`
+  );
+}
+
+export interface DialogDecision {
+  action: "accept" | "dismiss" | "hold";
+  /** Text to answer a prompt() with */
+  promptText?: string;
+}
+
+/**
+ * Decide how to answer a dialog under a policy.
+ * accept-with-text answers with `text`, falling back to the prompt's default value.
+ */
+export function decideDialog(
+  policy: DialogPolicy,
+  defaultValue: string,
+  text?: string
+): DialogDecision {
+  switch (policy) {
+    case "accept":
+      return { action: "accept" };
+    case "accept-with-text":
+      return { action: "accept", promptText: text ?? defaultValue };
+    case "hold":
+      return { action: "hold" };
+    case "dismiss":
+      return { action: "dismiss" };
+  }
+}
+
+/**
+ * Drop the oldest answered dialogs until at most `limit` remain.
+ * Pending dialogs are never dropped, so the list can stay longer while many are held.
+ */
+export function trimDialogHistory(dialogs: DialogRecord[], limit: number): void {
+  while (dialogs.length > limit) {
+    const oldest = dialogs.findIndex((d) => d.status !== "pending");
+    if (oldest < 0) return;
+    dialogs.splice(oldest, 1);
+  }
+}
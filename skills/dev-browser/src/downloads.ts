@@ -0,0 +1,72 @@
+/**
+ * Download bookkeeping shared by the launch server and the relay.
+ *
+ * Both servers save downloads into a managed per-instance directory so scripts
+ * can fetch the files over HTTP after they disconnect:
+ *   GET /downloads, GET /downloads/:id, DELETE /downloads/:id
+ */
+
+import { existsSync } from "fs";
+import { extname, join } from "path";
+import type { DownloadStatus } from "./types";
+
+/**
+ * Reduce a server-suggested filename to a safe basename.
+ * Strips directory components, control characters and leading dots.
+ */
+export function sanitizeFilename(suggested: string): string {
+  const base = suggested.split(/[\\/]/).pop() ?? "";
+  const cleaned = base
+    .replace(/[\x00-\x1f\x7f<>:"|?*]/g, "_")
+    .replace(/^\.+/, "")
+    .trim();
+  return cleaned || "download";
+}
+
+/**
+ * Pick a non-existing path for a download inside `dir`.
+ * Collisions get a numeric suffix before the extension: report.pdf -> report (1).pdf
+ */
+export function uniqueDownloadPath(
+  dir: string,
+  suggested: string,
+  exists: (path: string) => boolean = existsSync
+): string {
+  const filename = sanitizeFilename(suggested);
+  const ext = extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+
+  let candidate = join(dir, filename);
+  for (let n = 1; exists(candidate); n++) {
+    candidate = join(dir, `${stem} (${n})${ext}`);
+  }
+  return candidate;
+}
+
+/**
+ * Map the CDP Page.downloadProgress state onto our download status.
+ */
+export function downloadStatusFromProgress(state: string): DownloadStatus {
+  switch (state) {
+    case "completed":
+      return "completed";
+    case "canceled":
+      return "canceled";
+    case "inProgress":
+      return "in_progress";
+    default:
+      return "failed";
+  }
+}
+
+/**
+ * Build a Content-Disposition header that survives non-ASCII filenames (RFC 6266).
+ */
+export function contentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,201 @@
+/**
+ * Device, locale, timezone and geolocation emulation for named pages.
+ *
+ * Settings are applied through the CDP Emulation domain on a CDP session the
+ * server keeps open per page, so they work on existing pages and survive
+ * client reconnects. Chrome drops a session's overrides when it detaches,
+ * which is how DELETE /pages/:name/emulation resets them.
+ */
+
+import type { EmulationOptions, Geolocation, ViewportSize } from "./types";
+
+export class EmulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmulationError";
+  }
+}
+
+/** The subset of a Playwright device descriptor we apply */
+export interface DeviceDescriptor {
+  userAgent: string;
+  viewport: ViewportSize;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+/** Emulation settings with the device descriptor expanded */
+export interface ResolvedEmulation extends Omit<EmulationOptions, "device"> {
+  viewport?: ViewportSize;
+}
+
+export interface CdpCommand {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+function checkBoolean(options: EmulationOptions, key: "isMobile" | "hasTouch"): void {
+  if (options[key] !== undefined && typeof options[key] !== "boolean") {
+    throw new EmulationError(`${key} must be true or false`);
+  }
+}
+
+function checkGeolocation(geo: Geolocation): void {
+  const { latitude, longitude, accuracy } = geo;
+  if (typeof latitude !== "number" || latitude < -90 || latitude > 90) {
+    throw new EmulationError("geolocation.latitude must be between -90 and 90");
+  }
+  if (typeof longitude !== "number" || longitude < -180 || longitude > 180) {
+    throw new EmulationError("geolocation.longitude must be between -180 and 180");
+  }
+  if (accuracy !== undefined && (typeof accuracy !== "number" || accuracy < 0)) {
+    throw new EmulationError("geolocation.accuracy must be a non-negative number");
+  }
+}
+
+/**
+ * Validate emulation options and expand a named device into its settings.
+ * Throws EmulationError on invalid input.
+ */
+export function resolveEmulation(
+  options: EmulationOptions,
+  devices: Record<string, DeviceDescriptor>
+): ResolvedEmulation {
+  if (typeof options !== "object" || options === null) {
+    throw new EmulationError("emulation must be an object");
+  }
+
+  let base: ResolvedEmulation = {};
+  if (options.device !== undefined) {
+    const descriptor = Object.hasOwn(devices, options.device) ? devices[options.device] : undefined;
+    if (!descriptor) {
+      throw new EmulationError(
+        `Unknown device "${options.device}". Use a Playwright device name like "iPhone 13" or "Pixel 7".`
+      );
+    }
+    base = {
+      userAgent: descriptor.userAgent,
+      viewport: descriptor.viewport,
+      deviceScaleFactor: descriptor.deviceScaleFactor,
+      isMobile: descriptor.isMobile,
+      hasTouch: descriptor.hasTouch,
+    };
+  }
+
+  if (
+    options.userAgent !== undefined &&
+    (typeof options.userAgent !== "string" || !options.userAgent)
+  ) {
+    throw new EmulationError("userAgent must be a non-empty string");
+  }
+  if (
+    options.deviceScaleFactor !== undefined &&
+    (typeof options.deviceScaleFactor !== "number" || options.deviceScaleFactor <= 0)
+  ) {
+    throw new EmulationError("deviceScaleFactor must be a positive number");
+  }
+  checkBoolean(options, "isMobile");
+  checkBoolean(options, "hasTouch");
+  if (options.locale !== undefined) {
+    try {
+      Intl.getCanonicalLocales(options.locale);
+    } catch {
+      throw new EmulationError(`Invalid locale "${options.locale}"`);
+    }
+  }
+  if (options.timezoneId !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: options.timezoneId });
+    } catch {
+      throw new EmulationError(`Invalid timezoneId "${options.timezoneId}"`);
+    }
+  }
+  if (options.geolocation !== undefined) {
+    checkGeolocation(options.geolocation);
+  }
+  if (
+    options.colorScheme !== undefined &&
+    !["light", "dark", "no-preference"].includes(options.colorScheme)
+  ) {
+    throw new EmulationError('colorScheme must be "light", "dark" or "no-preference"');
+  }
+  if (
+    options.reducedMotion !== undefined &&
+    !["reduce", "no-preference"].includes(options.reducedMotion)
+  ) {
+    throw new EmulationError('reducedMotion must be "reduce" or "no-preference"');
+  }
+
+  const { device: _device, ...explicit } = options;
+  return { ...base, ...explicit };
+}
+
+/**
+ * Build the CDP Emulation commands that apply a resolved emulation.
+ * Only settings that are present produce commands. Accept-Language can only be sent
+ * with a user agent, so a locale without userAgent re-sends `browserUserAgent`
+ * (the browser's own, from Browser.getVersion).
+ */
+export function emulationCommands(
+  emulation: ResolvedEmulation,
+  browserUserAgent?: string
+): CdpCommand[] {
+  const commands: CdpCommand[] = [];
+  const { viewport, deviceScaleFactor, isMobile } = emulation;
+
+  if (viewport || deviceScaleFactor !== undefined || isMobile !== undefined) {
+    // 0 keeps the page's current size / scale factor
+    commands.push({
+      method: "Emulation.setDeviceMetricsOverride",
+      params: {
+        width: viewport?.width ?? 0,
+        height: viewport?.height ?? 0,
+        deviceScaleFactor: deviceScaleFactor ?? 0,
+        mobile: isMobile ?? false,
+      },
+    });
+  }
+  const userAgent = emulation.userAgent || (emulation.locale ? browserUserAgent : undefined);
+  if (userAgent) {
+    commands.push({
+      method: "Emulation.setUserAgentOverride",
+      params: emulation.locale ? { userAgent, acceptLanguage: emulation.locale } : { userAgent },
+    });
+  }
+  if (emulation.locale) {
+    commands.push({ method: "Emulation.setLocaleOverride", params: { locale: emulation.locale } });
+  }
+  if (emulation.hasTouch !== undefined) {
+    commands.push({
+      method: "Emulation.setTouchEmulationEnabled",
+      params: emulation.hasTouch ? { enabled: true, maxTouchPoints: 5 } : { enabled: false },
+    });
+  }
+  if (emulation.timezoneId) {
+    commands.push({
+      method: "Emulation.setTimezoneOverride",
+      params: { timezoneId: emulation.timezoneId },
+    });
+  }
+  if (emulation.geolocation) {
+    const { latitude, longitude, accuracy } = emulation.geolocation;
+    commands.push({
+      method: "Emulation.setGeolocationOverride",
+      params: { latitude, longitude, accuracy: accuracy ?? 0 },
+    });
+  }
+
+  const features: Array<{ name: string; value: string }> = [];
+  if (emulation.colorScheme) {
+    features.push({ name: "prefers-color-scheme", value: emulation.colorScheme });
+  }
+  if (emulation.reducedMotion) {
+    features.push({ name: "prefers-reduced-motion", value: emulation.reducedMotion });
+  }
+  if (features.length > 0) {
+    commands.push({ method: "Emulation.setEmulatedMedia", params: { features } });
+  }
+
+  return commands;
+}
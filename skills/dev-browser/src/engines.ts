@@ -0,0 +1,52 @@
+/**
+ * Browser engine selection for the launch server (--browser).
+ *
+ * Chromium runs as a persistent context with a CDP debugging port, and clients
+ * attach with connectOverCDP. Firefox and WebKit don't speak CDP, so the server
+ * runs a Playwright browser server instead and clients attach with connect().
+ *
+ * Without CDP there are no target ids, so pages on those engines are identified
+ * by an id the server stores in a page global (see pageIdScript).
+ */
+
+import type { BrowserEngine } from "./types";
+
+export const BROWSER_ENGINES: readonly BrowserEngine[] = ["chromium", "firefox", "webkit"];
+
+export class BrowserEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrowserEngineError";
+  }
+}
+
+/**
+ * Validate a browser engine name. Throws BrowserEngineError on unknown values.
+ */
+export function parseBrowserEngine(value: unknown): BrowserEngine {
+  if (typeof value === "string" && (BROWSER_ENGINES as readonly string[]).includes(value)) {
+    return value as BrowserEngine;
+  }
+  throw new BrowserEngineError(
+    `Invalid browser "${String(value)}". Must be one of: ${BROWSER_ENGINES.join(", ")}`
+  );
+}
+
+/** Whether clients reach this engine over CDP (otherwise over the Playwright protocol) */
+export function usesCDP(engine: BrowserEngine): boolean {
+  return engine === "chromium";
+}
+
+/** Page global holding the server-assigned page id on non-CDP engines */
+export const PAGE_ID_GLOBAL = "__devBrowserPageId";
+
+/** Reads the page id back; undefined on pages the server didn't create */
+export const PAGE_ID_EXPRESSION = `globalThis.${PAGE_ID_GLOBAL}`;
+
+/**
+ * Script that stores a page id in the page. Installed as an init script so the
+ * id survives navigations, and evaluated once for the document already loaded.
+ */
+export function pageIdScript(id: string): string {
+  return `Object.defineProperty(globalThis, ${JSON.stringify(PAGE_ID_GLOBAL)}, { value: ${JSON.stringify(id)}, configurable: true })`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Lifecycle event stream shared by the launch server and the relay.
+ *
+ * Both servers publish page, dialog, download, console, extension and browser events
+ * on an event bus and stream them to clients as Server-Sent Events:
+ *   GET /events[?types=page.closed,page.crashed]
+ *
+ * Recent events are retained so a client that reconnects with Last-Event-ID
+ * (or ?since=<id>) receives what it missed instead of polling /pages.
+ */
+
+import { createRingBuffer } from "./ring-buffer.js";
+import type { ServerEvent, ServerEventMap, ServerEventType } from "./types";
+
+export const SERVER_EVENT_TYPES: readonly ServerEventType[] = [
+  "page.created",
+  "page.closed",
+  "page.navigated",
+  "page.crashed",
+  "dialog.opened",
+  "download.finished",
+  "console.error",
+  "extension.connected",
+  "extension.disconnected",
+  "browser.restarted",
+];
+
+/** Events retained for Last-Event-ID replay */
+export const EVENT_BACKLOG_SIZE = 500;
+
+/** Comment lines sent this often keep proxies from closing idle streams */
+export const SSE_HEARTBEAT_MS = 15000;
+
+export class EventStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventStreamError";
+  }
+}
+
+export interface EventBus {
+  publish: <T extends ServerEventType>(type: T, data: ServerEventMap[T]) => ServerEvent;
+  /** Call listener for every event published from now on. Returns an unsubscribe function. */
+  subscribe: (listener: (event: ServerEvent) => void) => () => void;
+  /** Retained events with an id greater than `since` */
+  since: (since: number) => ServerEvent[];
+}
+
+export function createEventBus(backlog = EVENT_BACKLOG_SIZE): EventBus {
+  const history = createRingBuffer<Omit<ServerEvent, "id">>(backlog);
+  const listeners = new Set<(event: ServerEvent) => void>();
+
+  return {
+    publish(type, data) {
+      const item = { type, timestamp: new Date().toISOString(), data } as Omit<ServerEvent, "id">;
+      const event = { id: history.push(item), ...item } as ServerEvent;
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch {
+          // A broken stream must not stop delivery to the others
+        }
+      }
+      return event;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    since(since) {
+      return history
+        .since(since)
+        .items.map(({ seq, item }) => ({ id: seq, ...item }) as ServerEvent);
+    },
+  };
+}
+
+/**
+ * Parse the ?types= filter (comma-separated). Returns null for "all events".
+ * Throws EventStreamError on unknown types.
+ */
+export function parseEventTypes(value: unknown): Set<ServerEventType> | null {
+  if (value === undefined || value === "") return null;
+  if (typeof value !== "string") {
+    throw new EventStreamError("types must be a comma-separated list");
+  }
+  const types = new Set<ServerEventType>();
+  for (const type of value.split(",").map((t) => t.trim())) {
+    if (!(SERVER_EVENT_TYPES as readonly string[]).includes(type)) {
+      throw new EventStreamError(
+        `Unknown event type "${type}". Use one of: ${SERVER_EVENT_TYPES.join(", ")}.`
+      );
+    }
+    types.add(type as ServerEventType);
+  }
+  return types;
+}
+
+/**
+ * Resolve where a stream starts: Last-Event-ID header, then ?since=.
+ * Returns null for a fresh stream (no replay) or an invalid value.
+ */
+export function parseReplayFrom(lastEventId: unknown, since: unknown): number | null {
+  const value = lastEventId ?? since;
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+/** Encode an event as one SSE message. The data line is the whole event as JSON. */
+export function formatSSE(event: ServerEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Incremental SSE parser for the client. Feed it decoded text chunks as they
+ * arrive; it calls onEvent for every complete message whose data is an event.
+ * Comments (heartbeats) and partial messages are skipped.
+ */
+export function createSSEParser(onEvent: (event: ServerEvent) => void): (chunk: string) => void {
+  let buffer = "";
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n?/g, "\n");
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) >= 0) {
+      const message = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+      if (!data) continue;
+
+      let event: ServerEvent;
+      try {
+        event = JSON.parse(data) as ServerEvent;
+      } catch {
+        continue; // Not one of our events
+      }
+      onEvent(event);
+    }
+  };
+}
+
+/** Render CDP Runtime.consoleAPICalled arguments the way the console shows them */
+export function consoleTextFromCDP(
+  args: Array<{ type?: string; value?: unknown; description?: string }> | undefined
+): string {
+  return (args ?? [])
+    .map((arg) => {
+      if (arg.value !== undefined) {
+        return typeof arg.value === "string" ? arg.value : JSON.stringify(arg.value);
+      }
+      return arg.description ?? arg.type ?? "";
+    })
+    .join(" ");
+}
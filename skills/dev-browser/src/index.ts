@@ -1,16 +1,102 @@
 import express, { type Express, type Request, type Response } from "express";
-import { chromium, type BrowserContext, type Page } from "playwright";
-import { mkdirSync } from "fs";
-import { join } from "path";
+import {
+  chromium,
+  devices,
+  firefox,
+  webkit,
+  type Browser,
+  type BrowserContext,
+  type BrowserServer,
+  type CDPSession,
+  type Cookie,
+  type Dialog,
+  type Download,
+  type Page,
+  type Request as PlaywrightRequest,
+  type LaunchOptions,
+  type Route,
+} from "playwright";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { join, resolve } from "path";
+import { tmpdir } from "os";
+import { randomUUID } from "crypto";
 import type { Socket } from "net";
 import type {
   ServeOptions,
   GetPageRequest,
   GetPageResponse,
   ListPagesResponse,
+  PageInfo,
   ServerInfoResponse,
+  ScreenshotOptions,
+  SnapshotResponse,
+  GotoRequest,
+  GotoResponse,
+  ConsoleEntry,
+  ConsoleLogsResponse,
+  NetworkEntry,
+  NetworkLogResponse,
+  TracingStartRequest,
+  TracingStopRequest,
+  TraceInfo,
+  TracingStopResponse,
+  TracingStatusResponse,
+  DownloadInfo,
+  ListDownloadsResponse,
+  DialogPolicy,
+  DialogRecord,
+  UpdatePageRequest,
+  ListDialogsResponse,
+  DialogResponseRequest,
+  CreateRouteRequest,
+  RouteRule,
+  ListRoutesResponse,
+  EmulationOptions,
+  EmulationResponse,
+  PageThrottling,
+  ThrottlingResponse,
+  GrantPermissionsRequest,
+  ClearPermissionsRequest,
+  SetCookiesRequest,
+  DeleteCookiesRequest,
+  CookiesResponse,
+  CheckpointRequest,
+  CheckpointInfo,
+  ListCheckpointsResponse,
+  RestoreCheckpointResponse,
+  ViewportSize,
+  PermissionGrant,
+  ListPermissionsResponse,
+  CreateContextRequest,
+  ContextInfo,
+  ListContextsResponse,
+  ProxySettings,
+  ServerEvent,
+  HealthResponse,
+  PageMemory,
 } from "./types";
-import { parseAllCookies, cookieSummary } from "./cookies.js";
+import {
+  parseAllCookies,
+  cookieSummary,
+  toCookieParams,
+  filterCookiesByDomain,
+  formatCookies,
+  cookieFormatForPath,
+  parseCookieInput,
+  parseCookieFilter,
+  matchCookies,
+  type CookieFilter,
+  type CookieParam,
+} from "./cookies.js";
 import {
   registerInstance,
   unregisterInstance,
@@ -18,8 +104,83 @@ import {
   formatUptime,
 } from "./instance-registry.js";
 import { acquireProfileLock, removeLock } from "./profile-lock.js";
+import { isAuthorized } from "./auth.js";
+import { parseScreenshotQuery } from "./screenshot.js";
+import { getSnapshotExpression, parseSnapshotRefs } from "./snapshot/index.js";
+import { classifyNavigationError } from "./navigation.js";
+import { waitForPageLoad } from "./client.js";
+import { createRingBuffer, type RingBuffer } from "./ring-buffer.js";
+import {
+  parseNetworkFilter,
+  matchesNetworkFilter,
+  timingFromResourceTiming,
+  captureBody,
+  headerList,
+  toHar,
+} from "./network-log.js";
+import { uniqueDownloadPath } from "./downloads.js";
+import { parseDialogPolicy, decideDialog, trimDialogHistory } from "./dialogs.js";
+import { parseRouteRequest, routeMatcher, applyHeaderChanges } from "./routes.js";
+import { resolveEmulation, emulationCommands } from "./emulation.js";
+import { parseThrottlingRequest, DEFAULT_THROTTLING, NO_NETWORK_THROTTLING } from "./throttling.js";
+import {
+  parsePermissionList,
+  parsePermissionSpec,
+  normalizeOrigin,
+  type PermissionSpec,
+} from "./permissions.js";
+import {
+  CHECKPOINT_VERSION,
+  PAGE_STATE_EXPRESSION,
+  checkpointInfo,
+  checkpointPath,
+  loadCheckpoint,
+  parseCheckpoint,
+  restorableDatabases,
+  restoreOriginExpression,
+  restoreSessionStorageExpression,
+  scrollExpression,
+  type Checkpoint,
+  type CheckpointOrigin,
+  type CheckpointPage,
+} from "./checkpoints.js";
+import { pageIdScript, usesCDP } from "./engines.js";
+import { parseProxyRequest, proxyInfo, sameProxy } from "./proxy.js";
+import {
+  SSE_HEARTBEAT_MS,
+  createEventBus,
+  formatSSE,
+  parseEventTypes,
+  parseReplayFrom,
+} from "./events.js";
+import {
+  chromiumArgs,
+  resolveExtensionDirs,
+  validateChromeArgs,
+  validateExecutablePath,
+} from "./launch-options.js";
+import {
+  METRICS_CONTENT_TYPE,
+  UNMATCHED_ROUTE,
+  createHttpMetrics,
+  findDebuggingPortProcess,
+  formatPrometheus,
+  healthMetrics,
+  jsHeapFromMetrics,
+  listProcesses,
+  processTreeStats,
+} from "./metrics.js";
 
-export type { ServeOptions, GetPageResponse, ListPagesResponse, ServerInfoResponse };
+export type {
+  ServeOptions,
+  GetPageResponse,
+  ListPagesResponse,
+  PageInfo,
+  ServerInfoResponse,
+  ContextInfo,
+  ListContextsResponse,
+  HealthResponse,
+};
 
 export interface DevBrowserServer {
   wsEndpoint: string;
@@ -49,6 +210,24 @@ async function fetchWithRetry(
   throw new Error(`Failed after ${maxRetries} retries: ${lastError?.message}`);
 }
 
+// Helper to validate page/context names from request bodies. Returns an error message or null.
+function validateName(name: unknown): string | null {
+  if (!name || typeof name !== "string") {
+    return "name is required and must be a string";
+  }
+  if (name.length > 256) {
+    return "name must be 256 characters or less";
+  }
+  return null;
+}
+
+// Helper to parse a ?since=<cursor> query value. Returns null if invalid.
+function parseSince(value: unknown): number | null {
+  if (value === undefined) return 0;
+  const since = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return isNaN(since) || since < 0 ? null : since;
+}
+
 // Helper to add timeout to promises
 function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
   return Promise.race([
@@ -65,169 +244,2212 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
   const cdpPort = options.cdpPort ?? 9223;
   const profileDir = options.profileDir;
   const label = options.label ?? process.cwd();
+  const authToken = options.authToken;
+  const networkBodyLimit = options.networkBodyLimit ?? 0;
+  const defaultDialogPolicy = options.dialogPolicy ?? "dismiss";
+  const ephemeral = options.ephemeral ?? false;
+  const engine = options.browser ?? "chromium";
+  const ignoreHTTPSErrors = options.ignoreHTTPSErrors ?? false;
+  const proxy = options.proxy;
   const startedAt = new Date().toISOString();
 
-  // Validate port numbers
-  if (port < 1 || port > 65535) {
-    throw new Error(`Invalid port: ${port}. Must be between 1 and 65535`);
-  }
-  if (cdpPort < 1 || cdpPort > 65535) {
-    throw new Error(`Invalid cdpPort: ${cdpPort}. Must be between 1 and 65535`);
-  }
-  if (port === cdpPort) {
-    throw new Error("port and cdpPort must be different");
-  }
+  // Validate port numbers
+  if (port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${port}. Must be between 1 and 65535`);
+  }
+  if (cdpPort < 1 || cdpPort > 65535) {
+    throw new Error(`Invalid cdpPort: ${cdpPort}. Must be between 1 and 65535`);
+  }
+  if (port === cdpPort) {
+    throw new Error("port and cdpPort must be different");
+  }
+
+  // Validate Chromium launch customization before touching the profile
+  const customizesChromium =
+    options.chromePath !== undefined ||
+    (options.chromeArgs?.length ?? 0) > 0 ||
+    (options.extensions?.length ?? 0) > 0;
+  if (customizesChromium && !usesCDP(engine)) {
+    throw new Error(`chromePath, chromeArgs and extensions require chromium (got ${engine})`);
+  }
+  const executablePath = options.chromePath
+    ? validateExecutablePath(options.chromePath)
+    : undefined;
+  const chromeArgs = validateChromeArgs(options.chromeArgs ?? []);
+  const extensions = resolveExtensionDirs(options.extensions ?? []);
+
+  // Read the startup checkpoint before launching so a bad name fails fast. It comes
+  // from the profile directory even for ephemeral runs, so CI can start each run
+  // from the same saved login.
+  const savedCheckpointsDir = resolve(profileDir ? join(profileDir, "checkpoints") : "checkpoints");
+  const startupCheckpoint = options.restoreCheckpoint
+    ? loadCheckpoint(savedCheckpointsDir, options.restoreCheckpoint)
+    : undefined;
+
+  // Determine user data directory for persistent context.
+  // Ephemeral runs get a fresh temp directory that nothing else can be using.
+  // It also holds their traces, downloads and checkpoints and is deleted on shutdown.
+  const ephemeralRoot = ephemeral ? mkdtempSync(join(tmpdir(), "dev-browser-")) : undefined;
+  let userDataDir: string;
+  if (ephemeralRoot) {
+    userDataDir = join(ephemeralRoot, "browser-data");
+    mkdirSync(userDataDir);
+  } else {
+    // Each engine keeps its own profile; their on-disk formats aren't compatible
+    const dataDirName = engine === "chromium" ? "browser-data" : `browser-data-${engine}`;
+    userDataDir = profileDir
+      ? join(profileDir, dataDirName)
+      : join(process.cwd(), `.${dataDirName}`);
+
+    // Create directory if it doesn't exist
+    mkdirSync(userDataDir, { recursive: true });
+  }
+
+  // Files the server writes go next to the profile, or into the ephemeral temp directory
+  const outputDir = ephemeralRoot ?? profileDir;
+
+  // Trace files, unless configured otherwise (created on first use)
+  const traceDir =
+    options.traceDir ?? (outputDir ? join(outputDir, "traces") : join(process.cwd(), "traces"));
+
+  // Managed downloads directory for this instance (created on first download)
+  const downloadsDir = resolve(outputDir ? join(outputDir, "downloads") : "downloads");
+
+  // Saved storage-state checkpoints (created on first save)
+  const checkpointsDir = ephemeralRoot ? join(ephemeralRoot, "checkpoints") : savedCheckpointsDir;
+
+  if (ephemeral) {
+    console.log(`Using ephemeral browser profile: ${userDataDir}`);
+  } else {
+    // Acquire profile lock to prevent concurrent access to the same profile directory
+    acquireProfileLock(userDataDir, port);
+    console.log(`Using persistent browser profile: ${userDataDir}`);
+  }
+
+  console.log(`Launching ${engine} with persistent context...`);
+  if (proxy) {
+    console.log(`Using proxy ${proxy.server}${proxy.bypass ? ` (bypass: ${proxy.bypass})` : ""}`);
+  }
+
+  // Handles of one browser launch. Replaced wholesale when the browser is relaunched.
+  interface LaunchedBrowser {
+    context: BrowserContext;
+    wsEndpoint: string;
+    chromePid: number | undefined;
+    /** Playwright browser server and our connection to it (non-CDP engines only) */
+    browserServer: BrowserServer | null;
+    engineBrowser: Browser | null;
+  }
+
+  // Launch the browser on the profile and debugging port. Used at startup and for crash recovery.
+  async function launchBrowser(): Promise<LaunchedBrowser> {
+    let launched: LaunchedBrowser;
+
+    if (usesCDP(engine)) {
+      // Launch persistent context - this persists cookies, localStorage, cache, etc.
+      const persistent = await chromium.launchPersistentContext(userDataDir, {
+        headless,
+        executablePath,
+        // The headless shell can't run extensions, so use the full Chromium build for them
+        channel: extensions.length > 0 && headless && !executablePath ? "chromium" : undefined,
+        args: chromiumArgs({ cdpPort, chromeArgs, extensions }),
+        ignoreHTTPSErrors,
+        proxy,
+      });
+      if (executablePath) {
+        console.log(`Chrome executable: ${executablePath}`);
+      }
+      for (const dir of extensions) {
+        console.log(`Loaded extension: ${dir}`);
+      }
+
+      // Get the CDP WebSocket endpoint from Chrome's JSON API (with retry for slow startup)
+      const cdpResponse = await fetchWithRetry(`http://127.0.0.1:${cdpPort}/json/version`);
+      const cdpInfo = (await cdpResponse.json()) as { webSocketDebuggerUrl: string };
+      console.log(`CDP WebSocket endpoint: ${cdpInfo.webSocketDebuggerUrl}`);
+
+      launched = {
+        context: persistent,
+        wsEndpoint: cdpInfo.webSocketDebuggerUrl,
+        // For persistent contexts, browser() returns null and process may not exist as a method,
+        // so fall back to the process that owns the debugging port
+        chromePid:
+          ((persistent.browser() as any)?.process?.()?.pid as number | undefined) ??
+          findDebuggingPortProcess(await listProcesses(), cdpPort)?.pid,
+        browserServer: null,
+        engineBrowser: null,
+      };
+    } else {
+      // Firefox and WebKit have no CDP port, so serve the browser over the Playwright
+      // protocol instead. _userDataDir and _sharedBrowser are private, undocumented
+      // launchServer options (hence the cast): a persistent profile, and one set of
+      // contexts and pages visible to every connection (ours and the clients'). They
+      // can change in any Playwright release, so package.json sets the floor to a
+      // version they are known to work with.
+      const browserType = engine === "firefox" ? firefox : webkit;
+      const server = await browserType.launchServer({
+        headless,
+        // Loopback only, like Chromium's CDP port: --auth-token doesn't cover this websocket
+        host: "127.0.0.1",
+        port: cdpPort,
+        ignoreHTTPSErrors,
+        proxy,
+        _userDataDir: userDataDir,
+        _sharedBrowser: true,
+      } as LaunchOptions);
+      console.log(`Playwright WebSocket endpoint: ${server.wsEndpoint()}`);
+
+      const connected = await browserType.connect(server.wsEndpoint());
+      const persistent = connected.contexts()[0];
+      if (!persistent) {
+        await server.close();
+        throw new Error(`${engine} browser server has no persistent context`);
+      }
+      launched = {
+        context: persistent,
+        wsEndpoint: server.wsEndpoint(),
+        chromePid: server.process()?.pid,
+        browserServer: server,
+        engineBrowser: connected,
+      };
+    }
+
+    // Track the browser process PID
+    if (launched.chromePid) {
+      console.log(`Browser process PID: ${launched.chromePid}`);
+    }
+    return launched;
+  }
+
+  let { context, wsEndpoint, chromePid, browserServer, engineBrowser } = await launchBrowser();
+
+  // Crash recovery: how often the browser was relaunched, and whether that is happening now
+  let restarts = 0;
+  let restarting = false;
+
+  // Inject cookies before any pages are opened
+  if (options.cookies && options.cookies.length > 0) {
+    const cookies = parseAllCookies(options.cookies);
+    if (cookies.length > 0) {
+      await context.addCookies(cookies);
+      console.log(cookieSummary(cookies));
+    }
+  }
+
+  // Registry entry type for page tracking
+  interface PageEntry {
+    page: Page;
+    targetId: string;
+    /** Name of the browser context the page lives in */
+    context: string;
+    createdAt: string;
+    lastAccessedAt: string;
+    crashed: boolean;
+    /** Console messages, uncaught exceptions and crashes since the page was created */
+    console: RingBuffer<Omit<ConsoleEntry, "seq">>;
+    /** Finished and failed requests since the page was created */
+    network: RingBuffer<Omit<NetworkEntry, "seq">>;
+    /** HTTP version of responses by URL until their request is recorded (Chromium only) */
+    responseProtocols: Map<string, string>;
+    /** Page-specific dialog policy (undefined = server default) */
+    dialogPolicy: DialogPolicy | undefined;
+    /** Prompt answer for the accept-with-text policy */
+    dialogText: string | undefined;
+    /** Pending and past dialogs, oldest first */
+    dialogs: DialogRecord[];
+    /** Held dialogs waiting for POST /pages/:name/dialogs/:id */
+    pendingDialogs: Map<number, Dialog>;
+    /** Emulation settings applied via POST /pages or POST /pages/:name/emulation */
+    emulation: EmulationOptions | undefined;
+    /** Network and CPU throttling set via POST /pages/:name/throttling */
+    throttling: PageThrottling;
+    /**
+     * CDP session carrying emulation and throttling overrides. Opened on first use and
+     * detached by DELETE /pages/:name/emulation to drop them.
+     */
+    cdp: CDPSession | null;
+    /** CDP session reporting response protocols to the network log (Chromium only, never detached) */
+    networkCdp: CDPSession | null;
+  }
+
+  // Maximum console entries and network requests kept per page
+  const CONSOLE_BUFFER_SIZE = 1000;
+  const NETWORK_BUFFER_SIZE = 1000;
+  // Network.enable on page sessions: only the events are used, so don't buffer bodies twice
+  const NETWORK_ENABLE_PARAMS = { maxTotalBufferSize: 0, maxResourceBufferSize: 0 };
+  // Maximum answered dialogs kept per page (pending ones are never dropped)
+  const DIALOG_HISTORY_SIZE = 100;
+
+  // Registry: name -> PageEntry
+  const registry = new Map<string, PageEntry>();
+
+  // Lifecycle events streamed to GET /events
+  const events = createEventBus();
+
+  // Named isolated contexts: name -> BrowserContext.
+  // The persistent context is always available as DEFAULT_CONTEXT and is not stored here.
+  const DEFAULT_CONTEXT = "default";
+  const contexts = new Map<string, BrowserContext>();
+  // Per-context proxy overrides; other contexts use the browser-wide proxy
+  const contextProxies = new Map<string, ProxySettings>();
+
+  // Helper to shut the browser down again when startup fails after it was launched
+  async function abandonLaunch(): Promise<void> {
+    try {
+      await context.close();
+    } catch {
+      // Browser might already be gone
+    }
+    if (browserServer) {
+      try {
+        await browserServer.close();
+      } catch {
+        // Browser might already be gone
+      }
+    }
+    if (ephemeralRoot) {
+      rmSync(ephemeralRoot, { recursive: true, force: true });
+    } else {
+      removeLock(userDataDir);
+    }
+  }
+
+  // Permissions granted so far (Playwright can't list them back). Startup grants come first.
+  const permissionGrants: PermissionGrant[] = [];
+  for (const raw of options.grantPermissions ?? []) {
+    let spec: PermissionSpec;
+    try {
+      spec = parsePermissionSpec(raw);
+      await context.grantPermissions(spec.permissions, { origin: spec.origin });
+    } catch (err) {
+      await abandonLaunch();
+      throw new Error(`Failed to grant permissions "${raw}": ${(err as Error).message}`);
+    }
+    permissionGrants.push({
+      context: DEFAULT_CONTEXT,
+      origin: spec.origin ?? null,
+      permissions: spec.permissions,
+      grantedAt: new Date().toISOString(),
+    });
+    console.log(`Granted ${spec.permissions.join(", ")} to ${spec.origin ?? "all origins"}`);
+  }
+
+  // Browser handle used to create isolated contexts. Persistent contexts have no
+  // Browser object (context.browser() is null), so we attach over CDP on first use.
+  // Other engines already have one from connecting to the browser server.
+  let controlBrowser: Browser | null = null;
+
+  async function getControlBrowser(): Promise<Browser> {
+    if (engineBrowser) return engineBrowser;
+    if (!controlBrowser || !controlBrowser.isConnected()) {
+      controlBrowser = await chromium.connectOverCDP(wsEndpoint);
+    }
+    return controlBrowser;
+  }
+
+  // Helper to look up a context by name, falling back to the persistent context
+  function resolveContext(name: string | undefined): BrowserContext | undefined {
+    if (!name || name === DEFAULT_CONTEXT) return context;
+    return contexts.get(name);
+  }
+
+  function contextInfo(name: string): ContextInfo {
+    let pages = 0;
+    for (const entry of registry.values()) {
+      if (entry.context === name) pages++;
+    }
+    return {
+      name,
+      persistent: name === DEFAULT_CONTEXT,
+      pages,
+      proxy: proxyInfo(contextProxies.get(name) ?? proxy),
+    };
+  }
+
+  // Helper to describe a registered page. Title lookup fails on crashed pages.
+  async function pageInfo(name: string, entry: PageEntry): Promise<PageInfo> {
+    let title = "";
+    if (!entry.page.isClosed() && !entry.crashed) {
+      try {
+        title = await withTimeout(entry.page.title(), 2000, "title lookup");
+      } catch {
+        // Page is busy or navigating - report without a title
+      }
+    }
+    return {
+      name,
+      url: entry.page.url(),
+      title,
+      targetId: entry.targetId,
+      context: entry.context,
+      createdAt: entry.createdAt,
+      lastAccessedAt: entry.lastAccessedAt,
+      crashed: entry.crashed,
+      dialogPolicy: entry.dialogPolicy ?? defaultDialogPolicy,
+      emulation: entry.emulation,
+      throttling: entry.throttling,
+    };
+  }
+
+  // Helper to answer 501 for CDP-only features on other engines. Returns true if it did.
+  function rejectWithoutCDP(res: Response, feature: string): boolean {
+    if (usesCDP(engine)) return false;
+    res.status(501).json({ error: `${feature} requires --browser chromium (running ${engine})` });
+    return true;
+  }
+
+  // Helper to get the page's long-lived CDP session. Overrides sent on it stay
+  // in effect until it detaches, regardless of which clients come and go.
+  async function getPageSession(entry: PageEntry): Promise<CDPSession> {
+    if (!entry.cdp) {
+      entry.cdp = await entry.page.context().newCDPSession(entry.page);
+    }
+    return entry.cdp;
+  }
+
+  // Helper to merge new emulation settings into a page's and apply them over CDP.
+  // Throws EmulationError on invalid settings before anything is sent.
+  async function applyEmulation(entry: PageEntry, update: EmulationOptions): Promise<void> {
+    const merged: EmulationOptions = { ...entry.emulation, ...update };
+    const resolved = resolveEmulation(merged, devices);
+    const session = await getPageSession(entry);
+    // Accept-Language rides on the user agent override, so a locale alone needs the current UA
+    const browserUserAgent =
+      resolved.locale && !resolved.userAgent
+        ? (await session.send("Browser.getVersion")).userAgent
+        : undefined;
+    // Commands are built generically, so skip the per-method protocol typing
+    const send = session.send.bind(session) as (method: string, params: object) => Promise<unknown>;
+    for (const command of emulationCommands(resolved, browserUserAgent)) {
+      await send(command.method, command.params);
+    }
+    entry.emulation = merged;
+  }
+
+  // Helper to send a page's current throttling to Chrome
+  async function applyThrottling(entry: PageEntry): Promise<void> {
+    const session = await getPageSession(entry);
+    const { conditions, cpuRate } = entry.throttling;
+    if (conditions) {
+      await session.send("Network.enable", NETWORK_ENABLE_PARAMS);
+    }
+    await session.send("Network.emulateNetworkConditions", conditions ?? NO_NETWORK_THROTTLING);
+    await session.send("Emulation.setCPUThrottlingRate", { rate: cpuRate });
+  }
+
+  // Dialog ids are unique across pages so a stale id can't answer the wrong dialog
+  let dialogSeq = 0;
+
+  // Helper to answer a dialog and record the outcome. Returns false if it was already gone.
+  async function answerDialog(
+    entry: PageEntry,
+    record: DialogRecord,
+    dialog: Dialog,
+    accept: boolean,
+    promptText?: string
+  ): Promise<boolean> {
+    entry.pendingDialogs.delete(record.id);
+    let answered = true;
+    try {
+      if (accept) {
+        await dialog.accept(promptText);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // Handled by a connected client, or the page navigated/closed
+      answered = false;
+    }
+    record.status = accept && answered ? "accepted" : "dismissed";
+    if (accept && answered && promptText !== undefined) {
+      record.promptText = promptText;
+    }
+    record.handledAt = new Date().toISOString();
+    return answered;
+  }
+
+  // Helper to settle held dialogs that went away unanswered (page closed or navigated)
+  function abandonPendingDialogs(entry: PageEntry): void {
+    if (entry.pendingDialogs.size === 0) return;
+    const handledAt = new Date().toISOString();
+    for (const record of entry.dialogs) {
+      if (entry.pendingDialogs.has(record.id)) {
+        record.status = "dismissed";
+        record.handledAt = handledAt;
+      }
+    }
+    entry.pendingDialogs.clear();
+  }
+
+  // Helper to record a dialog and apply the page's policy to it
+  async function handleDialog(name: string, entry: PageEntry, dialog: Dialog): Promise<void> {
+    const policy = entry.dialogPolicy ?? defaultDialogPolicy;
+    const record: DialogRecord = {
+      id: ++dialogSeq,
+      type: dialog.type(),
+      message: dialog.message(),
+      defaultValue: dialog.defaultValue(),
+      url: entry.page.url(),
+      policy,
+      status: "pending",
+      openedAt: new Date().toISOString(),
+    };
+    entry.dialogs.push(record);
+    trimDialogHistory(entry.dialogs, DIALOG_HISTORY_SIZE);
+    events.publish("dialog.opened", {
+      page: name,
+      type: record.type,
+      message: record.message,
+      dialogId: record.id,
+    });
+
+    const decision = decideDialog(policy, record.defaultValue, entry.dialogText);
+    if (decision.action === "hold") {
+      entry.pendingDialogs.set(record.id, dialog);
+      return;
+    }
+    await answerDialog(entry, record, dialog, decision.action === "accept", decision.promptText);
+  }
+
+  // Active Playwright traces: context name -> trace info
+  const activeTraces = new Map<string, TraceInfo>();
+
+  // Helper to stop a context's trace and write it to traceDir
+  async function stopTrace(trace: TraceInfo): Promise<TracingStopResponse> {
+    const traceContext = resolveContext(trace.context);
+    if (!traceContext) {
+      throw new Error(`context "${trace.context}" not found`);
+    }
+
+    mkdirSync(traceDir, { recursive: true });
+    const stamp = trace.startedAt.replace(/[:.]/g, "-");
+    const path = join(traceDir, `${trace.name.replace(/[^\w.-]+/g, "_")}-${stamp}.zip`);
+
+    await traceContext.tracing.stop({ path });
+    activeTraces.delete(trace.context);
+    return { ...trace, path, stoppedAt: new Date().toISOString() };
+  }
+
+  // Downloads: id -> info plus the Playwright handle (needed to cancel)
+  interface DownloadEntry {
+    info: DownloadInfo;
+    download: Download;
+  }
+  const downloads = new Map<string, DownloadEntry>();
+
+  // Helper to save a download into downloadsDir and keep its status up to date
+  async function trackDownload(pageName: string, download: Download): Promise<void> {
+    const info: DownloadInfo = {
+      id: randomUUID(),
+      page: pageName,
+      url: download.url(),
+      suggestedFilename: download.suggestedFilename(),
+      path: null,
+      size: null,
+      status: "in_progress",
+      startedAt: new Date().toISOString(),
+    };
+    downloads.set(info.id, { info, download });
+
+    try {
+      mkdirSync(downloadsDir, { recursive: true });
+      // Reserve the path up front so concurrent downloads with the same name don't collide
+      info.path = uniqueDownloadPath(
+        downloadsDir,
+        info.suggestedFilename,
+        (path) =>
+          existsSync(path) || Array.from(downloads.values()).some((d) => d.info.path === path)
+      );
+      await download.saveAs(info.path);
+      info.size = statSync(info.path).size;
+      info.status = "completed";
+    } catch (err) {
+      const failure = await download.failure().catch(() => null);
+      info.status = failure === "canceled" ? "canceled" : "failed";
+      if (info.status === "failed") {
+        info.error = failure ?? (err as Error).message;
+      }
+    }
+    info.finishedAt = new Date().toISOString();
+    events.publish("download.finished", { ...info });
+  }
+
+  // Server-managed routing rules: id -> rule plus the page/context it is registered on
+  interface RouteEntry {
+    rule: RouteRule;
+    target: Page | BrowserContext;
+    matcher: string | RegExp;
+    handler: (route: Route, request: PlaywrightRequest) => Promise<void>;
+  }
+  const routes = new Map<string, RouteEntry>();
+  let routeSeq = 0;
+
+  // Helper to build the route handler that carries out a rule's action
+  function routeHandler(rule: RouteRule): RouteEntry["handler"] {
+    const { action } = rule;
+    return async (route, request) => {
+      try {
+        if (rule.method && request.method() !== rule.method) {
+          await route.fallback();
+          return;
+        }
+        rule.hits++;
+        switch (action.type) {
+          case "fulfill":
+            await route.fulfill({
+              status: action.status,
+              headers: action.headers,
+              contentType: action.contentType,
+              body: action.body,
+              path: action.path,
+            });
+            break;
+          case "abort":
+            await route.abort(action.errorCode);
+            break;
+          case "delay":
+            await new Promise((resolve) => setTimeout(resolve, action.ms));
+            await route.fallback();
+            break;
+          case "modifyHeaders":
+            await route.fallback({
+              headers: applyHeaderChanges(request.headers(), action.set, action.remove),
+            });
+            break;
+        }
+      } catch {
+        // Page closed or request canceled while the rule was running
+      }
+    };
+  }
+
+  // Helper to drop the recorded grants of a context after they were cleared or it closed
+  function forgetPermissionGrants(contextName: string): void {
+    for (let i = permissionGrants.length - 1; i >= 0; i--) {
+      if (permissionGrants[i]!.context === contextName) permissionGrants.splice(i, 1);
+    }
+  }
+
+  // Helper to drop rules whose page or context went away (their handlers died with it)
+  function forgetRoutes(predicate: (rule: RouteRule) => boolean): void {
+    for (const [id, entry] of routes) {
+      if (predicate(entry.rule)) routes.delete(id);
+    }
+  }
+
+  // Helper to pop the HTTP version CDP reported for a response (undefined if it didn't)
+  function takeResponseProtocol(entry: PageEntry, url: string): string | undefined {
+    const protocol = entry.responseProtocols.get(url);
+    entry.responseProtocols.delete(url);
+    return protocol;
+  }
+
+  // Helper to record a finished or failed request in a page's network log
+  async function recordRequest(entry: PageEntry, request: PlaywrightRequest): Promise<void> {
+    try {
+      const response = await request.response();
+      const timing = request.timing();
+      const requestHeaders = request.headers();
+      const responseHeaders = response?.headers() ?? {};
+      const mimeType = responseHeaders["content-type"] ?? "";
+
+      let responseBody;
+      if (response && networkBodyLimit > 0) {
+        try {
+          responseBody = captureBody(await response.body(), mimeType, networkBodyLimit);
+        } catch {
+          // Redirects and some failed responses have no body
+        }
+      }
+
+      const postData = networkBodyLimit > 0 ? request.postDataBuffer() : null;
+
+      entry.network.push({
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+        status: response?.status() ?? null,
+        statusText: response?.statusText() ?? "",
+        mimeType,
+        requestHeaders: headerList(requestHeaders),
+        responseHeaders: headerList(responseHeaders),
+        startedAt: new Date(timing.startTime).toISOString(),
+        durationMs: timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : -1,
+        timing: timingFromResourceTiming(timing),
+        httpVersion: takeResponseProtocol(entry, request.url()),
+        failure: request.failure()?.errorText,
+        requestBody: postData
+          ? captureBody(postData, requestHeaders["content-type"] ?? "", networkBodyLimit)
+          : undefined,
+        responseBody,
+      });
+    } catch {
+      // Page or context closed while the request was being recorded
+    }
+  }
+
+  // Helper to get CDP targetId for a page. Without CDP, assign an id and store it
+  // in the page so clients can find the page by evaluating PAGE_ID_EXPRESSION.
+  async function getTargetId(page: Page): Promise<string> {
+    if (!usesCDP(engine)) {
+      const id = randomUUID();
+      await page.addInitScript(pageIdScript(id));
+      await page.evaluate(pageIdScript(id));
+      return id;
+    }
+    const cdpSession = await page.context().newCDPSession(page);
+    try {
+      const { targetInfo } = await cdpSession.send("Target.getTargetInfo");
+      return targetInfo.targetId;
+    } finally {
+      await cdpSession.detach();
+    }
+  }
+
+  // Named pages that closed a moment ago. A browser crash closes every page just
+  // before its context, so crash recovery finds the pages to bring back here.
+  interface ClosedPage {
+    name: string;
+    context: string;
+    url: string;
+    viewport: ViewportSize | null;
+    dialogPolicy: DialogPolicy | undefined;
+    dialogText: string | undefined;
+    emulation: EmulationOptions | undefined;
+    throttling: PageThrottling;
+    closedAt: number;
+  }
+  const RECENTLY_CLOSED_MS = 2000;
+  const recentlyClosed = new Map<string, ClosedPage>();
+
+  function rememberClosedPage(name: string, entry: PageEntry): void {
+    const now = Date.now();
+    for (const [closedName, closed] of recentlyClosed) {
+      if (now - closed.closedAt > RECENTLY_CLOSED_MS) recentlyClosed.delete(closedName);
+    }
+    recentlyClosed.set(name, {
+      name,
+      context: entry.context,
+      url: entry.page.url(),
+      viewport: entry.page.viewportSize(),
+      dialogPolicy: entry.dialogPolicy,
+      dialogText: entry.dialogText,
+      emulation: entry.emulation,
+      throttling: entry.throttling,
+      closedAt: now,
+    });
+  }
+
+  // Create and register a named page, recording its console, network, dialogs and downloads
+  async function createPage(
+    name: string,
+    contextName: string,
+    pageContext: BrowserContext,
+    viewport?: ViewportSize | null
+  ): Promise<PageEntry> {
+    // Create new page in the requested context (with timeout to prevent hangs)
+    const page = await withTimeout(
+      pageContext.newPage(),
+      30000,
+      "Page creation timed out after 30s"
+    );
+
+    // Apply viewport if provided
+    if (viewport) {
+      await page.setViewportSize(viewport);
+    }
+
+    const targetId = await getTargetId(page);
+    const now = new Date().toISOString();
+    const created: PageEntry = {
+      page,
+      targetId,
+      context: contextName,
+      createdAt: now,
+      lastAccessedAt: now,
+      crashed: false,
+      console: createRingBuffer(CONSOLE_BUFFER_SIZE),
+      network: createRingBuffer(NETWORK_BUFFER_SIZE),
+      responseProtocols: new Map(),
+      dialogPolicy: undefined,
+      dialogText: undefined,
+      dialogs: [],
+      pendingDialogs: new Map(),
+      emulation: undefined,
+      throttling: DEFAULT_THROTTLING,
+      cdp: null,
+      networkCdp: null,
+    };
+    registry.set(name, created);
+    events.publish("page.created", { page: name, targetId, context: contextName });
+
+    // Record console output even while no client is connected
+    page.on("console", (msg) => {
+      const location = msg.location();
+      created.console.push({
+        type: msg.type(),
+        text: msg.text(),
+        location: location.url ? location : undefined,
+        timestamp: new Date().toISOString(),
+      });
+      if (msg.type() === "error") {
+        events.publish("console.error", { page: name, source: "console", text: msg.text() });
+      }
+    });
+    page.on("requestfinished", (request) => {
+      void recordRequest(created, request);
+    });
+    page.on("requestfailed", (request) => {
+      void recordRequest(created, request);
+    });
+    // Playwright doesn't expose the HTTP version of a response, so Chromium pages read it
+    // from CDP. Without it the HAR export falls back to HTTP/1.1. This uses a session of its
+    // own because clearing emulation detaches the override session.
+    if (usesCDP(engine)) {
+      try {
+        const session = await page.context().newCDPSession(page);
+        created.networkCdp = session;
+        session.on("Network.responseReceived", ({ response }) => {
+          if (!response.protocol) return;
+          // Entries are removed as requests are recorded; this only bounds leftovers
+          if (created.responseProtocols.size >= NETWORK_BUFFER_SIZE) {
+            created.responseProtocols.clear();
+          }
+          created.responseProtocols.set(response.url, response.protocol);
+        });
+        await session.send("Network.enable", NETWORK_ENABLE_PARAMS);
+      } catch {
+        // Page closed already
+      }
+    }
+    // Answer dialogs even between scripts so an unexpected alert() can't block the page
+    page.on("dialog", (dialog) => {
+      void handleDialog(name, created, dialog);
+    });
+    page.on("download", (download) => {
+      void trackDownload(name, download);
+    });
+    page.on("pageerror", (err) => {
+      created.console.push({
+        type: "pageerror",
+        text: err.stack ?? err.message,
+        timestamp: new Date().toISOString(),
+      });
+      events.publish("console.error", { page: name, source: "exception", text: err.message });
+    });
+    page.on("framenavigated", (frame) => {
+      if (frame === page.mainFrame()) {
+        abandonPendingDialogs(created);
+        events.publish("page.navigated", { page: name, url: frame.url() });
+      }
+    });
+
+    // Keep crashed pages registered so clients can see what happened
+    page.on("crash", () => {
+      created.crashed = true;
+      created.console.push({
+        type: "crash",
+        text: "Page crashed",
+        timestamp: new Date().toISOString(),
+      });
+      events.publish("page.crashed", { page: name });
+    });
+
+    // Clean up registry when page is closed (e.g., user clicks X),
+    // unless a checkpoint restore already registered a replacement under the name
+    page.on("close", () => {
+      abandonPendingDialogs(created);
+      if (registry.get(name) !== created) return;
+      registry.delete(name);
+      rememberClosedPage(name, created);
+      forgetRoutes((rule) => rule.page === name);
+      events.publish("page.closed", { page: name });
+    });
+
+    return created;
+  }
+
+  // Serves an empty document for any URL, so storage can be written for an
+  // origin without loading (or sending requests to) the real site
+  function blankDocument(route: Route): Promise<void> {
+    return route.fulfill({ status: 200, contentType: "text/html", body: "<html></html>" });
+  }
+
+  // Save cookies, localStorage, IndexedDB and the context's named pages to a checkpoint file
+  async function saveCheckpoint(
+    name: string,
+    contextName: string,
+    checkpointContext: BrowserContext
+  ): Promise<CheckpointInfo> {
+    const state = await withTimeout(
+      checkpointContext.storageState({ indexedDB: true }),
+      30000,
+      "storage state collection timed out after 30s"
+    );
+
+    const pages: CheckpointPage[] = [];
+    for (const [pageName, entry] of registry) {
+      if (entry.context !== contextName || entry.page.isClosed()) continue;
+
+      let pageState = { sessionStorage: [], scrollX: 0, scrollY: 0 } as Pick<
+        CheckpointPage,
+        "sessionStorage" | "scrollX" | "scrollY"
+      >;
+      if (!entry.crashed) {
+        try {
+          pageState = (await withTimeout(
+            entry.page.evaluate(PAGE_STATE_EXPRESSION),
+            5000,
+            "page state collection"
+          )) as typeof pageState;
+        } catch {
+          // Page is busy or navigating - keep the URL only
+        }
+      }
+      pages.push({
+        name: pageName,
+        url: entry.page.url(),
+        viewport: entry.page.viewportSize(),
+        ...pageState,
+      });
+    }
+
+    const checkpoint: Checkpoint = {
+      version: CHECKPOINT_VERSION,
+      name,
+      context: contextName,
+      createdAt: new Date().toISOString(),
+      cookies: state.cookies,
+      // storageState({ indexedDB: true }) adds indexedDB to each origin; Playwright's types omit it
+      origins: state.origins as CheckpointOrigin[],
+      pages,
+    };
+
+    mkdirSync(checkpointsDir, { recursive: true });
+    const path = checkpointPath(checkpointsDir, name);
+    writeFileSync(path, JSON.stringify(checkpoint, null, 2) + "\n", { mode: 0o600 });
+    return checkpointInfo(checkpoint, path);
+  }
+
+  // Replace a context's cookies and the checkpoint origins' storage, then rebuild its pages.
+  // Pages with the checkpoint's page names are closed and recreated.
+  async function restoreCheckpoint(
+    checkpoint: Checkpoint,
+    contextName: string,
+    restoreContext: BrowserContext
+  ): Promise<RestoreCheckpointResponse> {
+    for (const { name } of checkpoint.pages) {
+      const existing = registry.get(name);
+      if (existing) {
+        await existing.page.close();
+        registry.delete(name);
+      }
+    }
+
+    await restoreContext.clearCookies();
+    await restoreContext.addCookies(checkpoint.cookies);
+
+    // localStorage and IndexedDB can only be written from a page on the origin
+    let skippedRecords = 0;
+    const origins = checkpoint.origins.filter((o) => /^https?:\/\//.test(o.origin));
+    if (origins.length > 0) {
+      const storagePage = await restoreContext.newPage();
+      try {
+        await storagePage.route("**/*", blankDocument);
+        for (const origin of origins) {
+          const { databases, skipped } = restorableDatabases(origin.indexedDB ?? []);
+          skippedRecords += skipped;
+          await storagePage.goto(origin.origin);
+          await storagePage.evaluate(restoreOriginExpression(origin.localStorage, databases));
+        }
+      } finally {
+        await storagePage.close();
+      }
+    }
+
+    for (const saved of checkpoint.pages) {
+      const entry = await createPage(saved.name, contextName, restoreContext, saved.viewport);
+      const { page } = entry;
+
+      // sessionStorage belongs to the tab, so write it from the page itself before loading the URL
+      if (saved.sessionStorage.length > 0 && /^https?:\/\//.test(saved.url)) {
+        await page.route("**/*", blankDocument);
+        await page.goto(new URL(saved.url).origin);
+        await page.evaluate(restoreSessionStorageExpression(saved.sessionStorage));
+        await page.unroute("**/*", blankDocument);
+      }
+
+      if (saved.url && saved.url !== "about:blank") {
+        try {
+          await page.goto(saved.url);
+          await page.evaluate(scrollExpression(saved.scrollX, saved.scrollY));
+        } catch (err) {
+          // Keep the page: the site may be down, but storage and cookies are restored
+          entry.console.push({
+            type: "error",
+            text: `Checkpoint restore: ${(err as Error).message}`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    }
+
+    return {
+      name: checkpoint.name,
+      context: contextName,
+      pages: checkpoint.pages.map((p) => p.name),
+      skippedRecords,
+    };
+  }
+
+  // Request counts and latencies per route, reported by GET /metrics and GET /health
+  const httpMetrics = createHttpMetrics();
+
+  // Helper to read a page's JS heap over CDP. Reuses one of the page's own sessions when it
+  // has one, otherwise attaches just for this read so scrapes don't leave sessions behind.
+  async function readPageHeap(entry: PageEntry): Promise<Omit<PageMemory, "name"> | null> {
+    const existing = entry.networkCdp ?? entry.cdp;
+    const opened = existing ? undefined : entry.page.context().newCDPSession(entry.page);
+    try {
+      const session = existing ?? (await opened!);
+      await session.send("Performance.enable");
+      const { metrics } = await session.send("Performance.getMetrics");
+      return jsHeapFromMetrics(metrics);
+    } finally {
+      // Also detaches a session that attached after the caller gave up waiting
+      opened?.then((session) => session.detach()).catch(() => {});
+    }
+  }
+
+  // Helper to gather GET /health: browser process tree, page heaps and request stats
+  async function collectHealth(): Promise<HealthResponse> {
+    const processes = chromePid && !restarting ? await listProcesses() : [];
+
+    const pageMemory: PageMemory[] = [];
+    if (usesCDP(engine) && !restarting) {
+      await Promise.all(
+        Array.from(registry, async ([name, entry]) => {
+          if (entry.crashed || entry.page.isClosed()) return;
+          try {
+            const heap = await withTimeout(readPageHeap(entry), 2000, "heap metrics");
+            if (heap) pageMemory.push({ name, ...heap });
+          } catch {
+            // Page is busy or navigating - leave it out
+          }
+        })
+      );
+    }
+
+    return {
+      status: restarting ? "degraded" : "ok",
+      mode: "launch",
+      uptimeSeconds: Math.floor((Date.now() - new Date(startedAt).getTime()) / 1000),
+      pages: registry.size,
+      browser: chromePid ? processTreeStats(processes, chromePid) : null,
+      restarts,
+      pageMemory,
+      http: httpMetrics.stats(),
+    };
+  }
+
+  // Express server for page management
+  const app: Express = express();
+
+  // Count every request, including rejected ones, by route pattern. This sits before the
+  // auth check on purpose so 401s show up in the metrics; it only records and never answers.
+  app.use((req: Request, res: Response, next) => {
+    const start = performance.now();
+    // "close" also fires for event streams the client hung up on
+    res.on("close", () => {
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : UNMATCHED_ROUTE;
+      httpMetrics.observe(req.method, route, res.statusCode, (performance.now() - start) / 1000);
+    });
+    next();
+  });
+
+  // Require the bearer token on every route when one is configured
+  if (authToken) {
+    app.use((req: Request, res: Response, next) => {
+      const queryToken = typeof req.query.token === "string" ? req.query.token : undefined;
+      if (!isAuthorized(authToken, req.headers.authorization, queryToken)) {
+        res.status(401).json({ error: "unauthorized" });
+        return;
+      }
+      next();
+    });
+  }
+
+  app.use(express.json());
+
+  // While the browser is being relaunched only server info, health and events answer
+  app.use((req: Request, res: Response, next) => {
+    const available =
+      req.method === "GET" && ["/", "/events", "/health", "/metrics"].includes(req.path);
+    if (restarting && !available) {
+      res.status(503).json({ error: "browser is restarting, retry shortly" });
+      return;
+    }
+    next();
+  });
+
+  // GET / - server info with instance metadata
+  app.get("/", (_req: Request, res: Response) => {
+    const response: ServerInfoResponse = {
+      wsEndpoint,
+      mode: "launch",
+      engine,
+      label,
+      pid: process.pid,
+      port,
+      cdpPort,
+      headless,
+      ephemeral,
+      proxy: proxyInfo(proxy),
+      startedAt,
+      uptime: formatUptime(startedAt),
+      pages: registry.size,
+      restarts,
+    };
+    res.json(response);
+  });
+
+  // GET /health - browser process, page memory and request stats (503 while restarting)
+  app.get("/health", async (_req: Request, res: Response) => {
+    const health = await collectHealth();
+    res.status(health.status === "ok" ? 200 : 503).json(health);
+  });
+
+  // GET /metrics - the same numbers plus request histograms in Prometheus text format
+  app.get("/metrics", async (_req: Request, res: Response) => {
+    const health = await collectHealth();
+    res.set("Content-Type", METRICS_CONTENT_TYPE);
+    res.send(formatPrometheus([...healthMetrics(health), ...httpMetrics.families()]));
+  });
+
+  // GET /events - Server-Sent Events stream of page, dialog, download and console events
+  app.get("/events", (req: Request, res: Response) => {
+    let types: ReturnType<typeof parseEventTypes>;
+    try {
+      types = parseEventTypes(req.query.types);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: ServerEvent) => {
+      if (!types || types.has(event.type)) res.write(formatSSE(event));
+    };
+
+    // Replay what a reconnecting client missed, then follow live events
+    const replayFrom = parseReplayFrom(req.headers["last-event-id"], req.query.since);
+    if (replayFrom !== null) {
+      events.since(replayFrom).forEach(send);
+    }
+    const unsubscribe = events.subscribe(send);
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+    res.write(": connected\n\n");
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // GET /pages - list all pages with metadata
+  app.get("/pages", async (_req: Request, res: Response) => {
+    const entries = Array.from(registry.entries());
+    const response: ListPagesResponse = {
+      pages: entries.map(([name]) => name),
+      details: await Promise.all(entries.map(([name, entry]) => pageInfo(name, entry))),
+    };
+    res.json(response);
+  });
+
+  // POST /pages - get or create page
+  app.post("/pages", async (req: Request, res: Response) => {
+    const body = req.body as GetPageRequest;
+    const { name, viewport } = body;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    const nameError = validateName(name);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+
+    const pageContext = resolveContext(contextName);
+    if (!pageContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    // Check if page already exists
+    let entry = registry.get(name);
+    if (entry && body.context !== undefined && entry.context !== contextName) {
+      res
+        .status(409)
+        .json({ error: `page "${name}" already exists in context "${entry.context}"` });
+      return;
+    }
+
+    // Validate emulation up front so a bad value doesn't leave a half-configured page
+    if (!entry && body.emulation !== undefined) {
+      if (rejectWithoutCDP(res, "Emulation")) return;
+      try {
+        resolveEmulation(body.emulation, devices);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+    }
+
+    if (!entry) {
+      try {
+        entry = await createPage(name, contextName, pageContext, viewport);
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+        return;
+      }
+      if (body.emulation) {
+        try {
+          await applyEmulation(entry, body.emulation);
+        } catch (err) {
+          // Don't keep a page with only part of the emulation applied. Closing
+          // deregisters it; drop the entry directly in case the close fails.
+          await entry.page.close().catch(() => {});
+          if (registry.get(name) === entry) registry.delete(name);
+          res.status(500).json({ error: (err as Error).message });
+          return;
+        }
+      }
+    } else {
+      entry.lastAccessedAt = new Date().toISOString();
+    }
+
+    const response: GetPageResponse = { wsEndpoint, name, targetId: entry.targetId };
+    res.json(response);
+  });
+
+  // DELETE /pages/:name - close a page
+  app.delete("/pages/:name", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (entry) {
+      await entry.page.close();
+      registry.delete(name);
+      res.json({ success: true });
+      return;
+    }
+
+    res.status(404).json({ error: "page not found" });
+  });
+
+  // PATCH /pages/:name - update page settings (dialog policy)
+  app.patch("/pages/:name", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const body = (req.body ?? {}) as UpdatePageRequest;
+    if (body.dialogText !== undefined && typeof body.dialogText !== "string") {
+      res.status(400).json({ error: "dialogText must be a string" });
+      return;
+    }
+
+    let policy: DialogPolicy | undefined = entry.dialogPolicy;
+    if (body.dialogPolicy === null) {
+      policy = undefined;
+    } else if (body.dialogPolicy !== undefined) {
+      try {
+        policy = parseDialogPolicy(body.dialogPolicy);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+    }
+
+    entry.dialogPolicy = policy;
+    if (body.dialogText !== undefined) {
+      entry.dialogText = body.dialogText;
+    }
+    res.json(await pageInfo(name, entry));
+  });
+
+  // POST /pages/:name/emulation - merge and apply emulation settings on an existing page
+  app.post("/pages/:name/emulation", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    if (rejectWithoutCDP(res, "Emulation")) return;
+
+    const update = (req.body ?? {}) as EmulationOptions;
+    try {
+      resolveEmulation({ ...entry.emulation, ...update }, devices);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    try {
+      await applyEmulation(entry, update);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+
+    const response: EmulationResponse = { name, emulation: entry.emulation ?? {} };
+    res.json(response);
+  });
+
+  // DELETE /pages/:name/emulation - drop all emulation overrides
+  app.delete("/pages/:name/emulation", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    // Detaching the session makes Chrome discard every override sent on it
+    if (entry.cdp) {
+      try {
+        await entry.cdp.detach();
+      } catch {
+        // Page already closed
+      }
+      entry.cdp = null;
+    }
+    entry.emulation = undefined;
+
+    // Throttling lived on the same session, so put it back
+    if (entry.throttling !== DEFAULT_THROTTLING) {
+      try {
+        await applyThrottling(entry);
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+        return;
+      }
+    }
+
+    const response: EmulationResponse = { name, emulation: {} };
+    res.json(response);
+  });
+
+  // POST /pages/:name/throttling - set network profile and/or CPU slowdown
+  app.post("/pages/:name/throttling", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    if (rejectWithoutCDP(res, "Throttling")) return;
+
+    let throttling: PageThrottling;
+    try {
+      throttling = parseThrottlingRequest(req.body ?? {}, entry.throttling);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    entry.throttling = throttling;
+    try {
+      await applyThrottling(entry);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+
+    const response: ThrottlingResponse = { name, throttling };
+    res.json(response);
+  });
+
+  // GET /pages/:name/dialogs - pending and past JavaScript dialogs
+  app.get("/pages/:name/dialogs", (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const response: ListDialogsResponse = {
+      name,
+      policy: entry.dialogPolicy ?? defaultDialogPolicy,
+      dialogs: entry.dialogs,
+    };
+    res.json(response);
+  });
+
+  // POST /pages/:name/dialogs/:id - answer a held dialog
+  app.post(
+    "/pages/:name/dialogs/:id",
+    async (req: Request<{ name: string; id: string }>, res: Response) => {
+      const name = decodeURIComponent(req.params.name);
+      const entry = registry.get(name);
+
+      if (!entry) {
+        res.status(404).json({ error: "page not found" });
+        return;
+      }
+
+      const id = Number(req.params.id);
+      const record = entry.dialogs.find((d) => d.id === id);
+      if (!record) {
+        res.status(404).json({ error: "dialog not found" });
+        return;
+      }
+
+      const dialog = entry.pendingDialogs.get(id);
+      if (!dialog) {
+        res.status(409).json({ error: `dialog already ${record.status}` });
+        return;
+      }
+
+      const body = (req.body ?? {}) as DialogResponseRequest;
+      if (typeof body.accept !== "boolean") {
+        res.status(400).json({ error: "accept must be true or false" });
+        return;
+      }
+
+      const answered = await answerDialog(entry, record, dialog, body.accept, body.promptText);
+      if (!answered) {
+        res.status(409).json({ error: "dialog is no longer open" });
+        return;
+      }
+      res.json(record);
+    }
+  );
+
+  // GET /pages/:name/screenshot - capture the page (or one element) as png/jpeg bytes
+  app.get("/pages/:name/screenshot", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    let options: ScreenshotOptions;
+    try {
+      options = parseScreenshotQuery(req.query as Record<string, unknown>);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const type = options.format ?? "png";
+    try {
+      let image: Buffer;
+      if (options.ref) {
+        // Resolve the element from refs stored by getAISnapshot()
+        const handle = await entry.page.evaluateHandle((refId: string) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const refs = (globalThis as any).__devBrowserRefs;
+          return refs?.[refId] ?? null;
+        }, options.ref);
+        const element = handle.asElement();
+        if (!element) {
+          await handle.dispose();
+          res.status(404).json({ error: `ref "${options.ref}" not found; take a snapshot first` });
+          return;
+        }
+        try {
+          image = await element.screenshot({ type, quality: options.quality });
+        } finally {
+          await element.dispose();
+        }
+      } else {
+        image = await entry.page.screenshot({
+          type,
+          quality: options.quality,
+          fullPage: options.fullPage,
+          clip: options.clip,
+        });
+      }
+
+      res.type(type === "jpeg" ? "image/jpeg" : "image/png").send(image);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  // GET /pages/:name/snapshot - ARIA snapshot YAML and refs, evaluated server-side
+  app.get("/pages/:name/snapshot", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    try {
+      const snapshot = (await entry.page.evaluate(getSnapshotExpression())) as string;
+      const response: SnapshotResponse = {
+        name,
+        url: entry.page.url(),
+        snapshot,
+        refs: parseSnapshotRefs(snapshot),
+      };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  // POST /pages/:name/goto - navigate and report a structured result instead of throwing
+  app.post("/pages/:name/goto", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const body = req.body as GotoRequest;
+    if (!body.url || typeof body.url !== "string") {
+      res.status(400).json({ error: "url is required and must be a string" });
+      return;
+    }
+
+    const { page } = entry;
+    entry.lastAccessedAt = new Date().toISOString();
+
+    let response: GotoResponse;
+    try {
+      const navResponse = await page.goto(body.url, {
+        waitUntil: body.waitUntil ?? "load",
+        timeout: body.timeout ?? 30000,
+      });
+
+      // Walk back from the final request to collect redirects in order
+      const redirectChain: string[] = [];
+      let request = navResponse?.request().redirectedFrom() ?? null;
+      while (request) {
+        redirectChain.unshift(request.url());
+        request = request.redirectedFrom();
+      }
+
+      const load = body.skipLoadWait ? null : await waitForPageLoad(page);
+
+      response = {
+        ok: true,
+        url: page.url(),
+        status: navResponse?.status() ?? null,
+        redirectChain,
+        load,
+      };
+    } catch (err) {
+      response = {
+        ok: false,
+        url: page.url(),
+        status: null,
+        redirectChain: [],
+        load: null,
+        error: classifyNavigationError(err),
+      };
+    }
+
+    res.json(response);
+  });
+
+  // GET /pages/:name/console?since=<cursor> - buffered console output and page errors
+  app.get("/pages/:name/console", (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const since = parseSince(req.query.since);
+    if (since === null) {
+      res.status(400).json({ error: "since must be a non-negative integer" });
+      return;
+    }
+
+    const slice = entry.console.since(since);
+    const response: ConsoleLogsResponse = {
+      name,
+      entries: slice.items.map(({ seq, item }) => ({ seq, ...item })),
+      cursor: slice.cursor,
+      dropped: slice.dropped,
+    };
+    res.json(response);
+  });
+
+  // GET /pages/:name/network?url=&method=&status=&since= - recorded requests
+  app.get("/pages/:name/network", (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const since = parseSince(req.query.since);
+    if (since === null) {
+      res.status(400).json({ error: "since must be a non-negative integer" });
+      return;
+    }
+
+    let filter;
+    try {
+      filter = parseNetworkFilter(req.query as Record<string, unknown>);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const slice = entry.network.since(since);
+    const response: NetworkLogResponse = {
+      name,
+      entries: slice.items
+        .map(({ seq, item }) => ({ seq, ...item }))
+        .filter((e) => matchesNetworkFilter(e, filter)),
+      cursor: slice.cursor,
+      dropped: slice.dropped,
+    };
+    res.json(response);
+  });
+
+  // GET /pages/:name/har - export the page's network log as a HAR 1.2 file
+  app.get("/pages/:name/har", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const entry = registry.get(name);
+
+    if (!entry) {
+      res.status(404).json({ error: "page not found" });
+      return;
+    }
+
+    const info = await pageInfo(name, entry);
+    const har = toHar([
+      {
+        name,
+        title: info.title,
+        startedAt: entry.createdAt,
+        entries: entry.network.since().items.map(({ seq, item }) => ({ seq, ...item })),
+      },
+    ]);
+
+    res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(name)}.har"`);
+    res.json(har);
+  });
+
+  // GET /downloads - list tracked downloads (optionally ?page=<name>)
+  app.get("/downloads", (req: Request, res: Response) => {
+    const pageFilter = typeof req.query.page === "string" ? req.query.page : undefined;
+    const response: ListDownloadsResponse = {
+      downloads: Array.from(downloads.values())
+        .map((d) => d.info)
+        .filter((info) => !pageFilter || info.page === pageFilter),
+    };
+    res.json(response);
+  });
+
+  // GET /downloads/:id - file bytes of a completed download
+  app.get("/downloads/:id", (req: Request<{ id: string }>, res: Response) => {
+    const entry = downloads.get(req.params.id);
+
+    if (!entry) {
+      res.status(404).json({ error: "download not found" });
+      return;
+    }
+
+    const { info } = entry;
+    if (info.status !== "completed" || !info.path) {
+      res.status(409).json({ error: `download is ${info.status}` });
+      return;
+    }
+
+    res.download(info.path, info.suggestedFilename, (err) => {
+      if (err && !res.headersSent) {
+        res.status(410).json({ error: "download file no longer exists" });
+      }
+    });
+  });
+
+  // DELETE /downloads/:id - cancel if still running, remove the file and forget it
+  app.delete("/downloads/:id", async (req: Request<{ id: string }>, res: Response) => {
+    const entry = downloads.get(req.params.id);
+
+    if (!entry) {
+      res.status(404).json({ error: "download not found" });
+      return;
+    }
+
+    if (entry.info.status === "in_progress") {
+      try {
+        await entry.download.cancel();
+      } catch {
+        // Download finished or its page closed in the meantime
+      }
+    }
+    if (entry.info.path) {
+      rmSync(entry.info.path, { force: true });
+    }
+    downloads.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  // GET /cookies?domain=&format=json|netscape&context= - export the cookie jar
+  app.get("/cookies", async (req: Request, res: Response) => {
+    const format = typeof req.query.format === "string" ? req.query.format : "json";
+    if (format !== "json" && format !== "netscape") {
+      res.status(400).json({ error: 'format must be "json" or "netscape"' });
+      return;
+    }
+
+    const contextName = typeof req.query.context === "string" ? req.query.context : DEFAULT_CONTEXT;
+    const cookieContext = resolveContext(contextName);
+    if (!cookieContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    let cookies: CookieParam[];
+    try {
+      cookies = toCookieParams(await cookieContext.cookies());
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+    if (typeof req.query.domain === "string" && req.query.domain) {
+      cookies = filterCookiesByDomain(cookies, req.query.domain);
+    }
+
+    if (format === "json") {
+      res.json(cookies);
+    } else {
+      res.type("text/plain").send(formatCookies(cookies, "netscape"));
+    }
+  });
+
+  // POST /cookies - add cookies at runtime (same syntaxes as --cookies)
+  app.post("/cookies", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Partial<SetCookiesRequest>;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    let cookies: CookieParam[];
+    try {
+      cookies = parseCookieInput(body.cookies);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const cookieContext = resolveContext(contextName);
+    if (!cookieContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    try {
+      await cookieContext.addCookies(cookies);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const response: CookiesResponse = { count: cookies.length, summary: cookieSummary(cookies) };
+    res.json(response);
+  });
+
+  // DELETE /cookies - delete cookies matching { name?, domain? } (all when no filter)
+  app.delete("/cookies", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as DeleteCookiesRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    let filter: CookieFilter;
+    try {
+      filter = parseCookieFilter(body);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const cookieContext = resolveContext(contextName);
+    if (!cookieContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    let deleted: Cookie[];
+    try {
+      deleted = matchCookies(await cookieContext.cookies(), filter);
+      for (const { name, domain, path } of deleted) {
+        await cookieContext.clearCookies({ name, domain, path });
+      }
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+
+    const response: CookiesResponse = {
+      count: deleted.length,
+      summary: cookieSummary(deleted, "Deleted"),
+    };
+    res.json(response);
+  });
+
+  // GET /checkpoints - list saved checkpoints
+  app.get("/checkpoints", (_req: Request, res: Response) => {
+    const checkpoints: CheckpointInfo[] = [];
+    if (existsSync(checkpointsDir)) {
+      for (const file of readdirSync(checkpointsDir).sort()) {
+        if (!file.endsWith(".json")) continue;
+        const path = join(checkpointsDir, file);
+        try {
+          checkpoints.push(checkpointInfo(parseCheckpoint(readFileSync(path, "utf-8")), path));
+        } catch {
+          // Not a checkpoint (or corrupt) - leave it out of the list
+        }
+      }
+    }
+    const response: ListCheckpointsResponse = { checkpoints };
+    res.json(response);
+  });
+
+  // POST /checkpoints/:name - save cookies, storage and named pages of a context
+  app.post("/checkpoints/:name", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const body = (req.body ?? {}) as CheckpointRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    try {
+      checkpointPath(checkpointsDir, name);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const checkpointContext = resolveContext(contextName);
+    if (!checkpointContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    try {
+      res.json(await saveCheckpoint(name, contextName, checkpointContext));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  // POST /checkpoints/:name/restore - restore a checkpoint into a context and rebuild its pages
+  app.post("/checkpoints/:name/restore", async (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
+    const body = (req.body ?? {}) as CheckpointRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    let checkpoint: Checkpoint;
+    try {
+      const path = checkpointPath(checkpointsDir, name);
+      if (!existsSync(path)) {
+        res.status(404).json({ error: "checkpoint not found" });
+        return;
+      }
+      checkpoint = parseCheckpoint(readFileSync(path, "utf-8"));
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    const restoreContext = resolveContext(contextName);
+    if (!restoreContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
+
+    try {
+      res.json(await restoreCheckpoint(checkpoint, contextName, restoreContext));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
 
-  // Determine user data directory for persistent context
-  const userDataDir = profileDir
-    ? join(profileDir, "browser-data")
-    : join(process.cwd(), ".browser-data");
+  // DELETE /checkpoints/:name - delete a checkpoint file
+  app.delete("/checkpoints/:name", (req: Request<{ name: string }>, res: Response) => {
+    const name = decodeURIComponent(req.params.name);
 
-  // Create directory if it doesn't exist
-  mkdirSync(userDataDir, { recursive: true });
+    let path: string;
+    try {
+      path = checkpointPath(checkpointsDir, name);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
 
-  // Acquire profile lock to prevent concurrent access to the same profile directory
-  acquireProfileLock(userDataDir, port);
-  console.log(`Using persistent browser profile: ${userDataDir}`);
+    if (!existsSync(path)) {
+      res.status(404).json({ error: "checkpoint not found" });
+      return;
+    }
 
-  console.log("Launching browser with persistent context...");
+    rmSync(path);
+    res.json({ success: true });
+  });
 
-  // Launch persistent context - this persists cookies, localStorage, cache, etc.
-  const context: BrowserContext = await chromium.launchPersistentContext(userDataDir, {
-    headless,
-    args: [`--remote-debugging-port=${cdpPort}`],
+  // GET /permissions - list permission grants
+  app.get("/permissions", (_req: Request, res: Response) => {
+    const response: ListPermissionsResponse = { grants: permissionGrants };
+    res.json(response);
   });
-  // Track Chrome process PID
-  // For persistent contexts, browser() returns null and process may not exist as a method
-  const chromePid = (context.browser() as any)?.process?.()?.pid as number | undefined;
-  if (chromePid) {
-    console.log(`Chrome process PID: ${chromePid}`);
-  }
 
-  // Inject cookies before any pages are opened
-  if (options.cookies && options.cookies.length > 0) {
-    const cookies = parseAllCookies(options.cookies);
-    if (cookies.length > 0) {
-      await context.addCookies(cookies);
-      console.log(cookieSummary(cookies));
+  // POST /permissions - grant permissions for an origin (or all origins) in a context
+  app.post("/permissions", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as GrantPermissionsRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+
+    let permissions: string[];
+    let origin: string | undefined;
+    try {
+      permissions = parsePermissionList(body.permissions);
+      origin = body.origin !== undefined ? normalizeOrigin(body.origin) : undefined;
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
     }
-  }
 
-  // Get the CDP WebSocket endpoint from Chrome's JSON API (with retry for slow startup)
-  const cdpResponse = await fetchWithRetry(`http://127.0.0.1:${cdpPort}/json/version`);
-  const cdpInfo = (await cdpResponse.json()) as { webSocketDebuggerUrl: string };
-  const wsEndpoint = cdpInfo.webSocketDebuggerUrl;
-  console.log(`CDP WebSocket endpoint: ${wsEndpoint}`);
+    const grantContext = resolveContext(contextName);
+    if (!grantContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
+    }
 
-  // Registry entry type for page tracking
-  interface PageEntry {
-    page: Page;
-    targetId: string;
-  }
+    try {
+      await grantContext.grantPermissions(permissions, { origin });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
 
-  // Registry: name -> PageEntry
-  const registry = new Map<string, PageEntry>();
+    const grant: PermissionGrant = {
+      context: contextName,
+      origin: origin ?? null,
+      permissions,
+      grantedAt: new Date().toISOString(),
+    };
+    permissionGrants.push(grant);
+    res.json(grant);
+  });
 
-  // Helper to get CDP targetId for a page
-  async function getTargetId(page: Page): Promise<string> {
-    const cdpSession = await context.newCDPSession(page);
-    try {
-      const { targetInfo } = await cdpSession.send("Target.getTargetInfo");
-      return targetInfo.targetId;
-    } finally {
-      await cdpSession.detach();
+  // DELETE /permissions - clear all permission grants of a context
+  app.delete("/permissions", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as ClearPermissionsRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+    const grantContext = resolveContext(contextName);
+
+    if (!grantContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
+      return;
     }
-  }
 
-  // Express server for page management
-  const app: Express = express();
-  app.use(express.json());
+    try {
+      await grantContext.clearPermissions();
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+    forgetPermissionGrants(contextName);
+    res.json({ success: true });
+  });
 
-  // GET / - server info with instance metadata
-  app.get("/", (_req: Request, res: Response) => {
-    const response: ServerInfoResponse = {
-      wsEndpoint,
-      mode: "launch",
-      label,
-      pid: process.pid,
-      port,
-      cdpPort,
-      headless,
-      startedAt,
-      uptime: formatUptime(startedAt),
-      pages: registry.size,
+  // GET /routes - list routing rules
+  app.get("/routes", (_req: Request, res: Response) => {
+    const response: ListRoutesResponse = {
+      routes: Array.from(routes.values()).map((entry) => entry.rule),
     };
     res.json(response);
   });
 
-  // GET /pages - list all pages
-  app.get("/pages", (_req: Request, res: Response) => {
-    const response: ListPagesResponse = {
-      pages: Array.from(registry.keys()),
+  // POST /routes - add a routing rule to a named page or a whole context
+  app.post("/routes", async (req: Request, res: Response) => {
+    let request: CreateRouteRequest;
+    try {
+      request = parseRouteRequest(req.body);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+
+    let target: Page | BrowserContext | undefined;
+    if (request.page !== undefined) {
+      target = registry.get(request.page)?.page;
+      if (!target) {
+        res.status(404).json({ error: "page not found" });
+        return;
+      }
+    } else {
+      target = resolveContext(request.context);
+      if (!target) {
+        res.status(404).json({ error: `context "${request.context}" not found` });
+        return;
+      }
+    }
+
+    const { action } = request;
+    if (action.type === "fulfill" && action.path !== undefined) {
+      action.path = resolve(action.path);
+      if (!existsSync(action.path)) {
+        res.status(400).json({ error: `fulfill file not found: ${action.path}` });
+        return;
+      }
+    }
+
+    const rule: RouteRule = {
+      id: String(++routeSeq),
+      ...request,
+      createdAt: new Date().toISOString(),
+      hits: 0,
     };
+    const matcher = routeMatcher(rule.url);
+    const handler = routeHandler(rule);
+
+    try {
+      await target.route(matcher, handler);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+
+    routes.set(rule.id, { rule, target, matcher, handler });
+    res.json(rule);
+  });
+
+  // DELETE /routes/:id - remove a routing rule
+  app.delete("/routes/:id", async (req: Request<{ id: string }>, res: Response) => {
+    const entry = routes.get(req.params.id);
+
+    if (!entry) {
+      res.status(404).json({ error: "route not found" });
+      return;
+    }
+
+    try {
+      await entry.target.unroute(entry.matcher, entry.handler);
+    } catch {
+      // Page or context already closed
+    }
+    routes.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  // GET /tracing - list active traces
+  app.get("/tracing", (_req: Request, res: Response) => {
+    const response: TracingStatusResponse = { traces: Array.from(activeTraces.values()) };
     res.json(response);
   });
 
-  // POST /pages - get or create page
-  app.post("/pages", async (req: Request, res: Response) => {
-    const body = req.body as GetPageRequest;
-    const { name, viewport } = body;
+  // POST /tracing/start - start a Playwright trace for a context
+  app.post("/tracing/start", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as TracingStartRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+    const traceContext = resolveContext(contextName);
 
-    if (!name || typeof name !== "string") {
-      res.status(400).json({ error: "name is required and must be a string" });
+    if (!traceContext) {
+      res.status(404).json({ error: `context "${contextName}" not found` });
       return;
     }
 
-    if (name.length === 0) {
-      res.status(400).json({ error: "name cannot be empty" });
+    if (activeTraces.has(contextName)) {
+      res.status(409).json({ error: `tracing already active for context "${contextName}"` });
       return;
     }
 
-    if (name.length > 256) {
-      res.status(400).json({ error: "name must be 256 characters or less" });
+    const trace: TraceInfo = {
+      context: contextName,
+      name: body.name ?? contextName,
+      startedAt: new Date().toISOString(),
+    };
+
+    try {
+      await traceContext.tracing.start({
+        name: trace.name,
+        title: trace.name,
+        screenshots: body.screenshots ?? true,
+        snapshots: body.snapshots ?? true,
+        sources: body.sources ?? true,
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
       return;
     }
 
-    // Check if page already exists
-    let entry = registry.get(name);
-    if (!entry) {
-      // Create new page in the persistent context (with timeout to prevent hangs)
-      const page = await withTimeout(context.newPage(), 30000, "Page creation timed out after 30s");
+    activeTraces.set(contextName, trace);
+    res.json(trace);
+  });
 
-      // Apply viewport if provided
-      if (viewport) {
-        await page.setViewportSize(viewport);
-      }
+  // POST /tracing/stop - stop a context's trace and write trace.zip to the trace directory
+  app.post("/tracing/stop", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as TracingStopRequest;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
+    const trace = activeTraces.get(contextName);
 
-      const targetId = await getTargetId(page);
-      entry = { page, targetId };
-      registry.set(name, entry);
+    if (!trace) {
+      res.status(404).json({ error: `no active trace for context "${contextName}"` });
+      return;
+    }
 
-      // Clean up registry when page is closed (e.g., user clicks X)
-      page.on("close", () => {
-        registry.delete(name);
-      });
+    try {
+      const response: TracingStopResponse = await stopTrace(trace);
+      console.log(`Trace saved: ${response.path}`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
     }
+  });
 
-    const response: GetPageResponse = { wsEndpoint, name, targetId: entry.targetId };
+  // GET /contexts - list browser contexts
+  app.get("/contexts", (_req: Request, res: Response) => {
+    const response: ListContextsResponse = {
+      contexts: [DEFAULT_CONTEXT, ...contexts.keys()].map(contextInfo),
+    };
     res.json(response);
   });
 
-  // DELETE /pages/:name - close a page
-  app.delete("/pages/:name", async (req: Request<{ name: string }>, res: Response) => {
+  // POST /contexts - get or create an isolated context (separate cookies and storage)
+  app.post("/contexts", async (req: Request, res: Response) => {
+    const body = req.body as CreateContextRequest;
+    const { name } = body;
+
+    const nameError = validateName(name);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+
+    let contextProxy: ProxySettings | undefined;
+    if (body.proxy !== undefined) {
+      if (name === DEFAULT_CONTEXT) {
+        res.status(400).json({ error: "the default context uses the server's --proxy" });
+        return;
+      }
+      try {
+        contextProxy = parseProxyRequest(body.proxy);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+      // Proxies are fixed at creation, so an existing context can't switch
+      if (contexts.has(name) && !sameProxy(contextProxies.get(name), contextProxy)) {
+        res.status(409).json({
+          error: `context "${name}" already exists with a different proxy; delete it first`,
+        });
+        return;
+      }
+    }
+
+    if (name !== DEFAULT_CONTEXT && !contexts.has(name)) {
+      try {
+        const browser = await getControlBrowser();
+        const isolated = await withTimeout(
+          browser.newContext({ ignoreHTTPSErrors, proxy: contextProxy }),
+          30000,
+          "Context creation timed out after 30s"
+        );
+        contexts.set(name, isolated);
+        if (contextProxy) {
+          contextProxies.set(name, contextProxy);
+        }
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+        return;
+      }
+    }
+
+    res.json(contextInfo(name));
+  });
+
+  // DELETE /contexts/:name - close an isolated context and all of its pages
+  app.delete("/contexts/:name", async (req: Request<{ name: string }>, res: Response) => {
     const name = decodeURIComponent(req.params.name);
-    const entry = registry.get(name);
 
-    if (entry) {
-      await entry.page.close();
-      registry.delete(name);
-      res.json({ success: true });
+    if (name === DEFAULT_CONTEXT) {
+      res.status(400).json({ error: "the default persistent context cannot be deleted" });
       return;
     }
 
-    res.status(404).json({ error: "page not found" });
+    const isolated = contexts.get(name);
+    if (!isolated) {
+      res.status(404).json({ error: "context not found" });
+      return;
+    }
+
+    // Save an in-progress trace before the context goes away
+    const trace = activeTraces.get(name);
+    if (trace) {
+      try {
+        const saved = await stopTrace(trace);
+        console.log(`Trace saved: ${saved.path}`);
+      } catch {
+        activeTraces.delete(name);
+      }
+    }
+
+    // Close first, so a failed close leaves the context tracked rather than orphaned
+    try {
+      await isolated.close();
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+      return;
+    }
+
+    // The pages' close handlers normally deregister them; catch any that didn't fire
+    for (const [pageName, entry] of registry) {
+      if (entry.context === name) {
+        registry.delete(pageName);
+        events.publish("page.closed", { page: pageName });
+      }
+    }
+    forgetRoutes((rule) => rule.context === name);
+    forgetPermissionGrants(name);
+    contexts.delete(name);
+    contextProxies.delete(name);
+    res.json({ success: true });
   });
 
+  // Restore the startup checkpoint before clients can connect
+  if (startupCheckpoint) {
+    let restored: RestoreCheckpointResponse;
+    try {
+      restored = await restoreCheckpoint(startupCheckpoint, DEFAULT_CONTEXT, context);
+    } catch (err) {
+      await abandonLaunch();
+      throw new Error(
+        `Failed to restore checkpoint "${startupCheckpoint.name}": ${(err as Error).message}`
+      );
+    }
+    console.log(
+      `Restored checkpoint "${restored.name}" (${restored.pages.length} page${restored.pages.length === 1 ? "" : "s"})`
+    );
+  }
+
   // Register this instance in the shared registry
   registerInstance({
     pid: process.pid,
@@ -236,9 +2458,11 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     mode: "launch",
     label,
     headless,
+    ephemeral,
     startedAt,
     profileDir,
     chromePid,
+    authToken,
   });
 
   // Start the server
@@ -269,6 +2493,33 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
     connections.clear();
 
+    // Save any traces still recording so the run can be inspected afterwards
+    for (const trace of activeTraces.values()) {
+      try {
+        const saved = await stopTrace(trace);
+        console.log(`Trace saved: ${saved.path}`);
+      } catch {
+        // Context might already be closed
+      }
+    }
+    activeTraces.clear();
+
+    // Save cookies while the context is still open. Isolated contexts are not saved;
+    // export them with GET /cookies?context=<name> before shutting down.
+    if (options.saveCookies) {
+      try {
+        const cookies = toCookieParams(await context.cookies());
+        writeFileSync(
+          options.saveCookies,
+          formatCookies(cookies, cookieFormatForPath(options.saveCookies)),
+          { mode: 0o600 }
+        );
+        console.log(`Saved ${cookies.length} cookies to ${options.saveCookies}`);
+      } catch (err) {
+        console.error(`Failed to save cookies: ${(err as Error).message}`);
+      }
+    }
+
     // Close all pages
     for (const entry of registry.values()) {
       try {
@@ -279,15 +2530,44 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
     registry.clear();
 
+    // Close isolated contexts and the control connection used to create them
+    for (const isolated of contexts.values()) {
+      try {
+        await isolated.close();
+      } catch {
+        // Context might already be closed
+      }
+    }
+    contexts.clear();
+    if (controlBrowser) {
+      try {
+        await controlBrowser.close();
+      } catch {
+        // Connection might already be gone
+      }
+      controlBrowser = null;
+    }
+
     // Close context (this also closes the browser)
     try {
       await context.close();
     } catch {
       // Context might already be closed
     }
+    if (browserServer) {
+      try {
+        await browserServer.close();
+      } catch {
+        // Browser might already be gone
+      }
+    }
 
-    // Release profile lock
-    removeLock(userDataDir);
+    // Throw away an ephemeral run's temp directory, otherwise release the profile lock
+    if (ephemeralRoot) {
+      rmSync(ephemeralRoot, { recursive: true, force: true });
+    } else {
+      removeLock(userDataDir);
+    }
 
     // Unregister from instance registry
     unregisterInstance(port);
@@ -303,8 +2583,167 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     } catch {
       // Best effort
     }
+    if (browserServer) {
+      try {
+        browserServer.kill();
+      } catch {
+        // Best effort
+      }
+    }
+    if (ephemeralRoot) {
+      try {
+        rmSync(ephemeralRoot, { recursive: true, force: true });
+      } catch {
+        // Chrome may still hold files open
+      }
+    }
   };
 
+  // Relaunch attempts after a crash before the server gives up and shuts down
+  const MAX_RESTART_ATTEMPTS = 3;
+  const RESTART_BACKOFF_MS = 1000;
+
+  // Watch for the browser going away (crash, kill, last window closed) outside of shutdown
+  function watchBrowser(watched: BrowserContext): void {
+    watched.once("close", () => {
+      if (cleaningUp || restarting) return;
+      recoverBrowser().catch(errorHandler);
+    });
+  }
+
+  // Relaunch the browser on the same profile and port, then rebuild isolated contexts,
+  // permission grants, context routes and the named pages at their last known URLs
+  async function recoverBrowser(): Promise<void> {
+    restarting = true;
+    restarts++;
+    console.error(`Browser disconnected, restarting (restart #${restarts})...`);
+
+    // Everything tied to the old browser died with it. Pages usually close before the
+    // context does, so clients have already seen page.closed for each of them, and
+    // page-specific routes went with their pages; browser.restarted lists what came back.
+    for (const [name, entry] of registry) {
+      rememberClosedPage(name, entry);
+    }
+    const lost = Array.from(recentlyClosed.values());
+    recentlyClosed.clear();
+    registry.clear();
+    forgetRoutes((rule) => rule.page !== undefined);
+    activeTraces.clear();
+    for (const connection of [controlBrowser, engineBrowser]) {
+      try {
+        await connection?.close();
+      } catch {
+        // Connection might already be gone
+      }
+    }
+    controlBrowser = null;
+    if (browserServer) {
+      try {
+        await browserServer.close();
+      } catch {
+        // Browser might already be gone
+      }
+    }
+
+    let launched: LaunchedBrowser | undefined;
+    for (let attempt = 1; attempt <= MAX_RESTART_ATTEMPTS && !launched; attempt++) {
+      try {
+        launched = await launchBrowser();
+      } catch (err) {
+        console.error(`Restart attempt ${attempt} failed: ${(err as Error).message}`);
+        await new Promise((resolve) => setTimeout(resolve, RESTART_BACKOFF_MS * attempt));
+      }
+    }
+    if (!launched) {
+      throw new Error(`browser could not be restarted after ${MAX_RESTART_ATTEMPTS} attempts`);
+    }
+    ({ context, wsEndpoint, chromePid, browserServer, engineBrowser } = launched);
+    if (chromePid) {
+      updateInstanceChromePid(port, chromePid);
+    }
+    watchBrowser(context);
+
+    for (const name of Array.from(contexts.keys())) {
+      try {
+        const browser = await getControlBrowser();
+        contexts.set(
+          name,
+          await browser.newContext({ ignoreHTTPSErrors, proxy: contextProxies.get(name) })
+        );
+      } catch (err) {
+        console.error(`Could not recreate context "${name}": ${(err as Error).message}`);
+        contexts.delete(name);
+        contextProxies.delete(name);
+        forgetPermissionGrants(name);
+        forgetRoutes((rule) => rule.context === name);
+      }
+    }
+
+    for (const grant of permissionGrants) {
+      try {
+        await resolveContext(grant.context)?.grantPermissions(grant.permissions, {
+          origin: grant.origin ?? undefined,
+        });
+      } catch {
+        // Reported again by GET /permissions; the client can re-grant
+      }
+    }
+
+    for (const [id, entry] of routes) {
+      const target = resolveContext(entry.rule.context);
+      try {
+        if (!target) throw new Error(`context "${entry.rule.context}" is gone`);
+        await target.route(entry.matcher, entry.handler);
+        entry.target = target;
+      } catch {
+        routes.delete(id);
+      }
+    }
+
+    const restored: string[] = [];
+    for (const saved of lost) {
+      const pageContext = resolveContext(saved.context);
+      if (!pageContext) continue;
+      let entry: PageEntry;
+      try {
+        entry = await createPage(saved.name, saved.context, pageContext, saved.viewport);
+      } catch (err) {
+        console.error(`Could not recreate page "${saved.name}": ${(err as Error).message}`);
+        continue;
+      }
+      restored.push(saved.name);
+      entry.dialogPolicy = saved.dialogPolicy;
+      entry.dialogText = saved.dialogText;
+      try {
+        if (saved.emulation) {
+          await applyEmulation(entry, saved.emulation);
+        }
+        if (saved.throttling !== DEFAULT_THROTTLING) {
+          entry.throttling = saved.throttling;
+          await applyThrottling(entry);
+        }
+        if (saved.url && saved.url !== "about:blank") {
+          await entry.page.goto(saved.url);
+        }
+      } catch (err) {
+        // Keep the page: the site may be down, but the name and settings are back
+        entry.console.push({
+          type: "error",
+          text: `Browser restart: ${(err as Error).message}`,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    restarting = false;
+    events.publish("browser.restarted", { restarts, pages: restored });
+    console.log(
+      `Browser restarted (${restored.length} page${restored.length === 1 ? "" : "s"} restored)`
+    );
+  }
+
+  watchBrowser(context);
+
   // Signal handlers (consolidated to reduce duplication)
   const signals = ["SIGINT", "SIGTERM", "SIGHUP"] as const;
 
@@ -334,7 +2773,10 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
   };
 
   return {
-    wsEndpoint,
+    // Changes when the browser is relaunched after a crash
+    get wsEndpoint() {
+      return wsEndpoint;
+    },
     port,
     async stop() {
       removeHandlers();
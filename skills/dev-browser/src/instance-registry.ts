@@ -17,9 +17,13 @@ export interface InstanceInfo {
   mode: "launch" | "relay";
   label: string;
   headless: boolean;
+  /** Launch mode with a temp profile that is deleted on shutdown */
+  ephemeral?: boolean;
   startedAt: string;
   profileDir: string | undefined;
   chromePid: number | undefined;
+  /** API auth token, so local clients can authenticate without extra configuration */
+  authToken?: string;
 }
 
 const INSTANCES_DIR = join(homedir(), ".dev-browser-skill", "instances");
@@ -45,12 +49,29 @@ function instancePath(port: number): string {
   return join(INSTANCES_DIR, `${port}.json`);
 }
 
+/**
+ * Write an instance file readable by its owner only, since it may carry the auth token.
+ * writeFileSync applies the mode only when it creates the file, so a leftover file
+ * (e.g. from a crashed instance) is removed first rather than rewritten in place.
+ */
+function writeInstanceFile(filePath: string, info: InstanceInfo): void {
+  try {
+    unlinkSync(filePath);
+  } catch {
+    // No previous file
+  }
+  writeFileSync(filePath, JSON.stringify(info, null, 2) + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+}
+
 /**
  * Register a running instance. Writes {port}.json to the instances directory.
  */
 export function registerInstance(info: InstanceInfo): void {
   ensureDir();
-  writeFileSync(instancePath(info.port), JSON.stringify(info, null, 2) + "\n", "utf-8");
+  writeInstanceFile(instancePath(info.port), info);
 }
 
 /**
@@ -167,12 +188,13 @@ export function printStatusTable(): void {
   console.log("dev-browser-skill instances:\n");
 
   // Column headers
-  const header = `  ${"PORT".padEnd(7)}${"PID".padEnd(10)}${"MODE".padEnd(10)}${"LABEL".padEnd(50)}UPTIME`;
+  const header = `  ${"PORT".padEnd(7)}${"PID".padEnd(10)}${"MODE".padEnd(10)}${"PROFILE".padEnd(12)}${"LABEL".padEnd(50)}UPTIME`;
   console.log(header);
 
   for (const info of instances) {
     const uptime = formatUptime(info.startedAt);
-    const line = `  ${String(info.port).padEnd(7)}${String(info.pid).padEnd(10)}${info.mode.padEnd(10)}${info.label.slice(0, 48).padEnd(50)}${uptime}`;
+    const profile = info.mode === "relay" ? "-" : info.ephemeral ? "ephemeral" : "persistent";
+    const line = `  ${String(info.port).padEnd(7)}${String(info.pid).padEnd(10)}${info.mode.padEnd(10)}${profile.padEnd(12)}${info.label.slice(0, 48).padEnd(50)}${uptime}`;
     console.log(line);
   }
 
@@ -188,7 +210,7 @@ export function updateInstanceChromePid(port: number, chromePid: number): void {
     const raw = readFileSync(filePath, "utf-8");
     const info = JSON.parse(raw) as InstanceInfo;
     info.chromePid = chromePid;
-    writeFileSync(filePath, JSON.stringify(info, null, 2) + "\n", "utf-8");
+    writeInstanceFile(filePath, info);
   } catch {
     // Instance file may have been removed — ignore
   }
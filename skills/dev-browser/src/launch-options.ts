@@ -0,0 +1,90 @@
+/**
+ * Chromium launch customization for the launch server.
+ *
+ * --chrome-path, --chrome-arg and --load-extension change how the persistent
+ * Chromium context is started; --ignore-https-errors applies to every context.
+ * This module validates the values and builds the launch arguments.
+ */
+
+import { existsSync, statSync } from "fs";
+import { join, resolve } from "path";
+
+export class LaunchOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LaunchOptionsError";
+  }
+}
+
+/** Switches the server manages itself; passing them again would break the server */
+const RESERVED_SWITCHES = ["--remote-debugging-port", "--user-data-dir"];
+
+export interface ChromiumArgsOptions {
+  cdpPort: number;
+  /** Extra switches from --chrome-arg */
+  chromeArgs?: string[];
+  /** Resolved unpacked extension directories from --load-extension */
+  extensions?: string[];
+}
+
+/**
+ * Validate extra Chromium switches. Switches the server sets itself are rejected.
+ */
+export function validateChromeArgs(args: string[]): string[] {
+  for (const arg of args) {
+    if (!arg.startsWith("-")) {
+      throw new LaunchOptionsError(`Invalid --chrome-arg "${arg}". Switches start with "--".`);
+    }
+    const name = arg.split("=")[0]!;
+    if (RESERVED_SWITCHES.includes(name)) {
+      throw new LaunchOptionsError(
+        `--chrome-arg "${name}" is set by the server and can't be overridden`
+      );
+    }
+  }
+  return args;
+}
+
+/**
+ * Resolve unpacked extension directories to absolute paths.
+ * Throws LaunchOptionsError if a directory has no manifest.json.
+ */
+export function resolveExtensionDirs(
+  dirs: string[],
+  exists: (path: string) => boolean = existsSync
+): string[] {
+  return dirs.map((dir) => {
+    const path = resolve(dir);
+    if (!exists(join(path, "manifest.json"))) {
+      throw new LaunchOptionsError(`Extension directory ${path} has no manifest.json`);
+    }
+    return path;
+  });
+}
+
+/**
+ * Check that --chrome-path points at a file before Playwright tries to run it.
+ */
+export function validateExecutablePath(path: string): string {
+  const resolved = resolve(path);
+  if (!existsSync(resolved) || !statSync(resolved).isFile()) {
+    throw new LaunchOptionsError(`Chrome executable not found: ${resolved}`);
+  }
+  return resolved;
+}
+
+/**
+ * Build the Chromium switches for the persistent context: the debugging port,
+ * the extensions (Playwright disables all others by default) and extra args last
+ * so they win over earlier switches.
+ */
+export function chromiumArgs(options: ChromiumArgsOptions): string[] {
+  const args = [`--remote-debugging-port=${options.cdpPort}`];
+  const extensions = options.extensions ?? [];
+  if (extensions.length > 0) {
+    const list = extensions.join(",");
+    args.push(`--disable-extensions-except=${list}`, `--load-extension=${list}`);
+  }
+  args.push(...(options.chromeArgs ?? []));
+  return args;
+}
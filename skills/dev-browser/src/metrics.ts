@@ -0,0 +1,369 @@
+/**
+ * Health and metrics endpoints shared by the launch server and the relay.
+ *
+ *   GET /health  - JSON summary (503 while degraded)
+ *   GET /metrics - the same numbers plus HTTP histograms in Prometheus text format
+ *
+ * Both servers count their HTTP requests per route with createHttpMetrics(),
+ * build a HealthResponse and render it with healthMetrics() and formatPrometheus().
+ * Browser process stats come from `ps`, so they are unavailable on Windows.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { BrowserProcessStats, HealthResponse, HttpRouteStats } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Route label for requests that matched no route */
+export const UNMATCHED_ROUTE = "unmatched";
+
+/** Upper bounds (seconds) of the request duration histogram */
+export const HTTP_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export interface MetricSample {
+  /** Appended to the family name, e.g. "_bucket" for histograms */
+  suffix?: string;
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: MetricSample[];
+}
+
+export interface HttpMetrics {
+  /** Record one finished request */
+  observe: (method: string, route: string, status: number, seconds: number) => void;
+  stats: () => HttpRouteStats[];
+  families: () => MetricFamily[];
+}
+
+interface RouteCounters {
+  method: string;
+  route: string;
+  statuses: Map<number, number>;
+  /** Requests per histogram bucket (not cumulative); the last slot is +Inf */
+  buckets: number[];
+  count: number;
+  sum: number;
+}
+
+export function createHttpMetrics(): HttpMetrics {
+  const counters = new Map<string, RouteCounters>();
+
+  return {
+    observe(method, route, status, seconds) {
+      const key = `${method} ${route}`;
+      let counter = counters.get(key);
+      if (!counter) {
+        counter = {
+          method,
+          route,
+          statuses: new Map(),
+          buckets: new Array<number>(HTTP_DURATION_BUCKETS.length + 1).fill(0),
+          count: 0,
+          sum: 0,
+        };
+        counters.set(key, counter);
+      }
+      counter.statuses.set(status, (counter.statuses.get(status) ?? 0) + 1);
+      const bucket = HTTP_DURATION_BUCKETS.findIndex((bound) => seconds <= bound);
+      counter.buckets[bucket === -1 ? HTTP_DURATION_BUCKETS.length : bucket]!++;
+      counter.count++;
+      counter.sum += seconds;
+    },
+
+    stats() {
+      return Array.from(counters.values()).map((c) => {
+        let errors = 0;
+        for (const [status, count] of c.statuses) {
+          if (status >= 500) errors += count;
+        }
+        return {
+          method: c.method,
+          route: c.route,
+          requests: c.count,
+          errors,
+          meanMs: Math.round((c.sum / c.count) * 1000 * 10) / 10,
+        };
+      });
+    },
+
+    families() {
+      const requests: MetricFamily = {
+        name: "dev_browser_http_requests_total",
+        help: "HTTP requests served, by route and status",
+        type: "counter",
+        samples: [],
+      };
+      const duration: MetricFamily = {
+        name: "dev_browser_http_request_duration_seconds",
+        help: "HTTP request duration, by route",
+        type: "histogram",
+        samples: [],
+      };
+
+      for (const c of counters.values()) {
+        const labels = { method: c.method, route: c.route };
+        for (const [status, count] of c.statuses) {
+          requests.samples.push({ labels: { ...labels, status: String(status) }, value: count });
+        }
+        let cumulative = 0;
+        HTTP_DURATION_BUCKETS.forEach((bound, i) => {
+          cumulative += c.buckets[i]!;
+          duration.samples.push({
+            suffix: "_bucket",
+            labels: { ...labels, le: String(bound) },
+            value: cumulative,
+          });
+        });
+        duration.samples.push({
+          suffix: "_bucket",
+          labels: { ...labels, le: "+Inf" },
+          value: c.count,
+        });
+        duration.samples.push({ suffix: "_sum", labels, value: c.sum });
+        duration.samples.push({ suffix: "_count", labels, value: c.count });
+      }
+      return [requests, duration];
+    },
+  };
+}
+
+/** Turn a health report into gauges and counters. Sections the report lacks are left out. */
+export function healthMetrics(health: HealthResponse): MetricFamily[] {
+  const gauge = (name: string, help: string, value: number): MetricFamily => ({
+    name,
+    help,
+    type: "gauge",
+    samples: [{ value }],
+  });
+
+  const families: MetricFamily[] = [
+    {
+      name: "dev_browser_healthy",
+      help: "1 if the server can serve pages, 0 while degraded",
+      type: "gauge",
+      samples: [{ labels: { mode: health.mode }, value: health.status === "ok" ? 1 : 0 }],
+    },
+    gauge("dev_browser_uptime_seconds", "Seconds since the server started", health.uptimeSeconds),
+    gauge("dev_browser_pages", "Named pages", health.pages),
+  ];
+
+  if (health.browser) {
+    families.push(
+      gauge(
+        "dev_browser_browser_processes",
+        "Browser process and its children",
+        health.browser.processes
+      ),
+      gauge(
+        "dev_browser_browser_resident_memory_bytes",
+        "Resident memory of the browser process tree",
+        health.browser.rssBytes
+      ),
+      {
+        name: "dev_browser_browser_cpu_seconds_total",
+        help: "CPU time of the browser process tree",
+        type: "counter",
+        samples: [{ value: health.browser.cpuSeconds }],
+      }
+    );
+  }
+  if (health.restarts !== undefined) {
+    families.push({
+      name: "dev_browser_browser_restarts_total",
+      help: "Browser relaunches after a crash",
+      type: "counter",
+      samples: [{ value: health.restarts }],
+    });
+  }
+  if (health.extension) {
+    families.push(
+      gauge(
+        "dev_browser_extension_connected",
+        "1 if the extension is connected",
+        health.extension.connected ? 1 : 0
+      ),
+      gauge(
+        "dev_browser_extension_pending_commands",
+        "Commands waiting for the extension to answer",
+        health.extension.pendingCommands
+      ),
+      gauge(
+        "dev_browser_relay_targets",
+        "Tabs attached through the extension",
+        health.extension.targets
+      ),
+      gauge("dev_browser_relay_clients", "Connected Playwright clients", health.extension.clients)
+    );
+  }
+
+  families.push(
+    {
+      name: "dev_browser_page_js_heap_used_bytes",
+      help: "Used JS heap of a named page",
+      type: "gauge",
+      samples: health.pageMemory.map((p) => ({
+        labels: { page: p.name },
+        value: p.jsHeapUsedBytes,
+      })),
+    },
+    {
+      name: "dev_browser_page_js_heap_total_bytes",
+      help: "Allocated JS heap of a named page",
+      type: "gauge",
+      samples: health.pageMemory.map((p) => ({
+        labels: { page: p.name },
+        value: p.jsHeapTotalBytes,
+      })),
+    }
+  );
+  return families;
+}
+
+/** Render metric families in the Prometheus text exposition format. Empty families are skipped. */
+export function formatPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    if (family.samples.length === 0) continue;
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels ?? {})
+        .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+        .join(",");
+      const name = family.name + (sample.suffix ?? "");
+      lines.push(`${name}${labels ? `{${labels}}` : ""} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Used and allocated JS heap from CDP Performance.getMetrics. Returns null if either is missing. */
+export function jsHeapFromMetrics(
+  metrics: Array<{ name: string; value: number }>
+): { jsHeapUsedBytes: number; jsHeapTotalBytes: number } | null {
+  const used = metrics.find((m) => m.name === "JSHeapUsedSize")?.value;
+  const total = metrics.find((m) => m.name === "JSHeapTotalSize")?.value;
+  if (used === undefined || total === undefined) return null;
+  return { jsHeapUsedBytes: used, jsHeapTotalBytes: total };
+}
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  rssBytes: number;
+  cpuSeconds: number;
+  command: string;
+}
+
+/**
+ * Parse `ps -A -o pid=,ppid=,rss=,time=,args=` output. Lines that don't parse are skipped.
+ */
+export function parseProcessList(output: string): ProcessEntry[] {
+  const entries: ProcessEntry[] = [];
+  for (const line of output.split("\n")) {
+    const match = /^\s*(\d+)\s+(\d+)\s+(\d+)\s+(\S+)\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const cpuSeconds = parseCpuTime(match[4]!);
+    if (cpuSeconds === null) continue;
+    entries.push({
+      pid: parseInt(match[1]!, 10),
+      ppid: parseInt(match[2]!, 10),
+      rssBytes: parseInt(match[3]!, 10) * 1024,
+      cpuSeconds,
+      command: match[5]!,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Parse the cumulative CPU time column of ps: [[dd-]hh:]mm:ss[.cc]
+ * (Linux prints "01:02:03", macOS "62:03.45"). Returns null if it doesn't parse.
+ */
+export function parseCpuTime(value: string): number | null {
+  const match = /^(?:(\d+)-)?(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)$/.exec(value);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    parseInt(days ?? "0", 10) * 86400 +
+    parseInt(hours ?? "0", 10) * 3600 +
+    parseInt(minutes!, 10) * 60 +
+    parseFloat(seconds!)
+  );
+}
+
+/** List all processes. Returns an empty list where ps isn't available. */
+export async function listProcesses(): Promise<ProcessEntry[]> {
+  try {
+    const { stdout } = await execFileAsync("ps", ["-A", "-o", "pid=,ppid=,rss=,time=,args="], {
+      timeout: 5000,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return parseProcessList(stdout);
+  } catch {
+    return [];
+  }
+}
+
+/** Sum memory and CPU over a process and all of its descendants. Null if it isn't running. */
+export function processTreeStats(
+  processes: ProcessEntry[],
+  rootPid: number
+): BrowserProcessStats | null {
+  if (!processes.some((p) => p.pid === rootPid)) return null;
+
+  const tree = new Set([rootPid]);
+  // Children may be listed before their parents, so repeat until nothing is added
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const p of processes) {
+      if (!tree.has(p.pid) && tree.has(p.ppid)) {
+        tree.add(p.pid);
+        grew = true;
+      }
+    }
+  }
+
+  const stats: BrowserProcessStats = { pid: rootPid, processes: 0, rssBytes: 0, cpuSeconds: 0 };
+  for (const p of processes) {
+    if (!tree.has(p.pid)) continue;
+    stats.processes++;
+    stats.rssBytes += p.rssBytes;
+    stats.cpuSeconds += p.cpuSeconds;
+  }
+  return stats;
+}
+
+/**
+ * Find the main browser process listening on a debugging port (child processes
+ * carry a --type= switch). Playwright doesn't expose the PID of a persistent
+ * Chromium context, so the launch server looks it up this way.
+ */
+export function findDebuggingPortProcess(
+  processes: ProcessEntry[],
+  cdpPort: number
+): ProcessEntry | undefined {
+  const flag = new RegExp(`--remote-debugging-port=${cdpPort}(\\s|$)`);
+  return processes.find((p) => flag.test(p.command) && !/\s--type=/.test(p.command));
+}
@@ -0,0 +1,67 @@
+/**
+ * Navigation error classification for POST /pages/:name/goto.
+ *
+ * Playwright reports navigation failures as thrown errors whose message embeds
+ * Chromium's net error code, e.g.:
+ *   page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.invalid/
+ * Agents need a stable category to decide whether to retry, so we map those
+ * strings to a small set of kinds.
+ */
+
+import type { NavigationError, NavigationErrorKind } from "./types";
+
+const NET_ERROR_CODE = /net::(ERR_[A-Z0-9_]+)/;
+
+const DNS_CODES = new Set(["ERR_NAME_NOT_RESOLVED", "ERR_NAME_RESOLUTION_FAILED"]);
+
+const CONNECTION_CODES = new Set([
+  "ERR_CONNECTION_REFUSED",
+  "ERR_CONNECTION_RESET",
+  "ERR_CONNECTION_CLOSED",
+  "ERR_CONNECTION_FAILED",
+  "ERR_CONNECTION_TIMED_OUT",
+  "ERR_ADDRESS_UNREACHABLE",
+  "ERR_INTERNET_DISCONNECTED",
+  "ERR_NETWORK_CHANGED",
+  "ERR_EMPTY_RESPONSE",
+  "ERR_TIMED_OUT",
+]);
+
+/** Kinds that are usually transient and worth retrying */
+const RETRYABLE_KINDS = new Set<NavigationErrorKind>(["dns", "connection", "timeout"]);
+
+function kindForCode(code: string): NavigationErrorKind {
+  if (DNS_CODES.has(code)) return "dns";
+  if (code.startsWith("ERR_CERT_") || code.startsWith("ERR_SSL_")) return "tls";
+  if (CONNECTION_CODES.has(code)) return "connection";
+  if (code === "ERR_ABORTED") return "aborted";
+  return "other";
+}
+
+/**
+ * Classify a navigation failure into a retry-friendly structure.
+ */
+export function classifyNavigationError(err: unknown): NavigationError {
+  const message = err instanceof Error ? err.message : String(err);
+  const name = err instanceof Error ? err.name : "";
+
+  const code = NET_ERROR_CODE.exec(message)?.[1];
+  let kind: NavigationErrorKind;
+  if (code) {
+    kind = kindForCode(code);
+  } else if (name === "TimeoutError" || /Timeout \d+ms exceeded/.test(message)) {
+    kind = "timeout";
+  } else {
+    kind = "other";
+  }
+
+  // Keep only the first line; Playwright appends a multi-line call log
+  const firstLine = message.split("\n")[0]!.trim();
+
+  return {
+    kind,
+    code: code ? `net::${code}` : undefined,
+    message: firstLine,
+    retryable: RETRYABLE_KINDS.has(kind),
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Network log helpers for the per-page request history.
+ *
+ * The launch server records every finished or failed request of a named page
+ * so scraping scripts can inspect traffic that happened before they connected.
+ * This module holds the pure parts: filtering, timing conversion, body capture
+ * and HAR 1.2 export (http://www.softwareishard.com/blog/har-12-spec/).
+ */
+
+import type { NetworkBody, NetworkEntry, NetworkHeader, NetworkTiming } from "./types";
+
+export class NetworkFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkFilterError";
+  }
+}
+
+export interface NetworkFilter {
+  /** Case-insensitive substring match on the URL */
+  url?: string;
+  /** Exact HTTP method (case-insensitive) */
+  method?: string;
+  /** Exact status (e.g. 404), or a class like "4xx" */
+  status?: { exact: number } | { class: number };
+}
+
+/**
+ * Resource timing as reported by Playwright's request.timing().
+ * Values are ms relative to startTime, -1 when unavailable.
+ */
+export interface ResourceTiming {
+  startTime: number;
+  domainLookupStart: number;
+  domainLookupEnd: number;
+  connectStart: number;
+  secureConnectionStart: number;
+  connectEnd: number;
+  requestStart: number;
+  responseStart: number;
+  responseEnd: number;
+}
+
+function span(start: number, end: number): number {
+  return start >= 0 && end >= 0 && end >= start ? end - start : -1;
+}
+
+/**
+ * Convert Playwright resource timing into per-phase durations.
+ */
+export function timingFromResourceTiming(t: ResourceTiming): NetworkTiming {
+  return {
+    dns: span(t.domainLookupStart, t.domainLookupEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.secureConnectionStart, t.connectEnd),
+    wait: Math.max(span(t.requestStart, t.responseStart), 0),
+    receive: Math.max(span(t.responseStart, t.responseEnd), 0),
+  };
+}
+
+/**
+ * Parse filter options from request query parameters.
+ * Throws NetworkFilterError on invalid input.
+ */
+export function parseNetworkFilter(query: Record<string, unknown>): NetworkFilter {
+  const filter: NetworkFilter = {};
+
+  if (typeof query.url === "string" && query.url) {
+    filter.url = query.url;
+  }
+
+  if (typeof query.method === "string" && query.method) {
+    filter.method = query.method.toUpperCase();
+  }
+
+  if (typeof query.status === "string" && query.status) {
+    const classMatch = /^([1-5])xx$/i.exec(query.status);
+    if (classMatch) {
+      filter.status = { class: Number(classMatch[1]) };
+    } else {
+      const num = Number(query.status);
+      if (!Number.isInteger(num) || num < 100 || num > 599) {
+        throw new NetworkFilterError(
+          `Invalid status "${query.status}". Use an HTTP status (e.g. 404) or a class (e.g. 4xx).`
+        );
+      }
+      filter.status = { exact: num };
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Check an entry against a filter. Failed requests (status null) never match a status filter.
+ */
+export function matchesNetworkFilter(entry: NetworkEntry, filter: NetworkFilter): boolean {
+  if (filter.url && !entry.url.toLowerCase().includes(filter.url.toLowerCase())) return false;
+  if (filter.method && entry.method.toUpperCase() !== filter.method) return false;
+  if (filter.status) {
+    if (entry.status === null) return false;
+    if ("exact" in filter.status && entry.status !== filter.status.exact) return false;
+    if ("class" in filter.status && Math.floor(entry.status / 100) !== filter.status.class) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const TEXT_MIME =
+  /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+
+/**
+ * Capture a body for the log, truncated to `limit` bytes.
+ * Textual MIME types are stored as UTF-8, everything else as base64.
+ * Returns undefined when capture is disabled (limit <= 0).
+ */
+export function captureBody(
+  body: Buffer,
+  mimeType: string,
+  limit: number
+): NetworkBody | undefined {
+  if (limit <= 0) return undefined;
+
+  const truncated = body.length > limit;
+  const slice = truncated ? body.subarray(0, limit) : body;
+
+  if (TEXT_MIME.test(mimeType)) {
+    return { text: slice.toString("utf-8"), size: body.length, truncated };
+  }
+  return { text: slice.toString("base64"), encoding: "base64", size: body.length, truncated };
+}
+
+/**
+ * Convert a header record into a name/value list.
+ */
+export function headerList(headers: Record<string, string>): NetworkHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+// ============================================================================
+// HAR 1.2 export
+// ============================================================================
+
+export interface HarPageInput {
+  name: string;
+  title: string;
+  startedAt: string;
+  entries: NetworkEntry[];
+}
+
+/** Minimal HAR 1.2 document shape (see spec for field semantics) */
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: Array<Record<string, unknown>>;
+  };
+}
+
+/** Phases of a HAR entry in ms; -1 means the phase doesn't apply */
+interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+function queryStringOf(url: string): NetworkHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function headerValue(headers: NetworkHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find((h) => h.name.toLowerCase() === lower)?.value;
+}
+
+/**
+ * HAR httpVersion for a protocol as the browser reports it ("http/1.1", "h2", "h3").
+ * Falls back to HTTP/1.1 when the protocol is unknown, like Playwright's own HAR recorder.
+ */
+function harHttpVersion(protocol: string | undefined): string {
+  if (protocol === "h2") return "HTTP/2.0";
+  if (protocol === "h3") return "HTTP/3.0";
+  if (protocol && /^http\/\d(\.\d)?$/i.test(protocol)) return protocol.toUpperCase();
+  return "HTTP/1.1";
+}
+
+/**
+ * HAR timings whose non-negative phases add up to the entry's total time, as the
+ * spec requires. Resource timing has no blocked or send phase, so whatever part of
+ * the duration DNS, connect, wait and receive don't cover is reported as blocked.
+ */
+function harTimings(entry: NetworkEntry): { time: number; timings: HarTimings } {
+  const { timing } = entry;
+  const measured =
+    Math.max(timing.dns, 0) +
+    Math.max(timing.connect, 0) +
+    Math.max(timing.wait, 0) +
+    Math.max(timing.receive, 0);
+  const blocked = entry.durationMs > measured ? entry.durationMs - measured : -1;
+  return {
+    time: measured + Math.max(blocked, 0),
+    timings: {
+      blocked,
+      dns: timing.dns,
+      connect: timing.connect,
+      ssl: timing.ssl,
+      send: 0,
+      wait: timing.wait,
+      receive: timing.receive,
+    },
+  };
+}
+
+function harEntry(pageId: string, entry: NetworkEntry): Record<string, unknown> {
+  const requestContentType = headerValue(entry.requestHeaders, "content-type");
+  const httpVersion = harHttpVersion(entry.httpVersion);
+  const { time, timings } = harTimings(entry);
+
+  const request: Record<string, unknown> = {
+    method: entry.method,
+    url: entry.url,
+    httpVersion,
+    cookies: [],
+    headers: entry.requestHeaders,
+    queryString: queryStringOf(entry.url),
+    headersSize: -1,
+    bodySize: entry.requestBody?.size ?? (entry.method === "GET" ? 0 : -1),
+  };
+  if (entry.requestBody) {
+    request.postData = {
+      mimeType: requestContentType ?? "",
+      text: entry.requestBody.text,
+    };
+  }
+
+  const content: Record<string, unknown> = {
+    size: entry.responseBody?.size ?? 0,
+    mimeType: entry.mimeType,
+  };
+  if (entry.responseBody) {
+    content.text = entry.responseBody.text;
+    if (entry.responseBody.encoding) content.encoding = entry.responseBody.encoding;
+  }
+
+  const harEntryValue: Record<string, unknown> = {
+    pageref: pageId,
+    startedDateTime: entry.startedAt,
+    time,
+    request,
+    response: {
+      status: entry.status ?? 0,
+      statusText: entry.statusText,
+      httpVersion,
+      cookies: [],
+      headers: entry.responseHeaders,
+      content,
+      redirectURL: headerValue(entry.responseHeaders, "location") ?? "",
+      headersSize: -1,
+      bodySize: entry.responseBody?.size ?? -1,
+    },
+    cache: {},
+    timings,
+  };
+  if (entry.failure) {
+    harEntryValue._failure = entry.failure;
+  }
+  return harEntryValue;
+}
+
+/**
+ * Build a HAR 1.2 document from one or more pages' network logs.
+ */
+export function toHar(pages: HarPageInput[], creatorVersion = "0.0.1"): Har {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "dev-browser", version: creatorVersion },
+      pages: pages.map((p) => ({
+        startedDateTime: p.startedAt,
+        id: p.name,
+        title: p.title,
+        pageTimings: { onContentLoad: -1, onLoad: -1 },
+      })),
+      entries: pages.flatMap((p) => p.entries.map((e) => harEntry(p.name, e))),
+    },
+  };
+}
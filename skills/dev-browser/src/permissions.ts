@@ -0,0 +1,95 @@
+/**
+ * Browser permission grants for the launch server.
+ *
+ * Wraps BrowserContext.grantPermissions() so automated flows aren't stalled by
+ * notification, clipboard, camera or geolocation prompts. Grants come from
+ * POST /permissions at runtime or from --grant-permissions at startup:
+ *
+ *   --grant-permissions notifications,clipboard-read                      (all origins)
+ *   --grant-permissions https://meet.example.com=camera,microphone        (one origin)
+ */
+
+export class PermissionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermissionsError";
+  }
+}
+
+/** Permissions Chromium accepts through Playwright's grantPermissions() */
+export const KNOWN_PERMISSIONS = [
+  "accelerometer",
+  "ambient-light-sensor",
+  "background-sync",
+  "camera",
+  "clipboard-read",
+  "clipboard-write",
+  "geolocation",
+  "gyroscope",
+  "local-fonts",
+  "magnetometer",
+  "microphone",
+  "midi",
+  "midi-sysex",
+  "notifications",
+  "payment-handler",
+  "storage-access",
+] as const;
+
+export interface PermissionSpec {
+  /** Origin to grant for (undefined = every origin) */
+  origin?: string;
+  permissions: string[];
+}
+
+/**
+ * Validate a permission list. Throws PermissionsError on unknown names.
+ */
+export function parsePermissionList(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new PermissionsError("permissions must be a non-empty list");
+  }
+  for (const permission of value) {
+    if (!(KNOWN_PERMISSIONS as readonly unknown[]).includes(permission)) {
+      throw new PermissionsError(
+        `Unknown permission "${String(permission)}". Use one of: ${KNOWN_PERMISSIONS.join(", ")}.`
+      );
+    }
+  }
+  return value as string[];
+}
+
+/**
+ * Normalize an origin ("https://example.com/path" -> "https://example.com").
+ * Throws PermissionsError for values that aren't http(s) URLs.
+ */
+export function normalizeOrigin(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new PermissionsError(`Invalid origin "${value}". Use a URL like https://example.com.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new PermissionsError(`Invalid origin "${value}". Only http and https are supported.`);
+  }
+  return url.origin;
+}
+
+/**
+ * Parse a --grant-permissions value: "[origin=]perm1,perm2".
+ */
+export function parsePermissionSpec(value: string): PermissionSpec {
+  // Split on the last "=" before the list so origins with query strings still parse
+  const eq = value.lastIndexOf("=");
+  const origin = eq >= 0 ? value.slice(0, eq).trim() : undefined;
+  const list = (eq >= 0 ? value.slice(eq + 1) : value)
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return {
+    origin: origin ? normalizeOrigin(origin) : undefined,
+    permissions: parsePermissionList(list),
+  };
+}
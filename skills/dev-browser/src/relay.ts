@@ -7,9 +7,52 @@
  */
 
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { routePath } from "hono/route";
 import { serve } from "@hono/node-server";
+import { getConnInfo } from "@hono/node-server/conninfo";
 import { createNodeWebSocket } from "@hono/node-ws";
 import type { WSContext } from "hono/ws";
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync } from "fs";
+import { join, resolve } from "path";
+import type {
+  CookiesResponse,
+  DownloadInfo,
+  HealthResponse,
+  ListDownloadsResponse,
+  ListPagesResponse,
+  PageInfo,
+  PageMemory,
+  ServerEvent,
+  SnapshotResponse,
+} from "./types";
+import { isAuthorized, isLoopbackAddress } from "./auth.js";
+import { getSnapshotExpression, parseSnapshotRefs } from "./snapshot/index.js";
+import { contentDisposition, downloadStatusFromProgress, sanitizeFilename } from "./downloads.js";
+import {
+  cookieSummary,
+  matchCookies,
+  parseCookieFilter,
+  parseCookieInput,
+  type CookieFilter,
+  type CookieParam,
+} from "./cookies.js";
+import {
+  SSE_HEARTBEAT_MS,
+  consoleTextFromCDP,
+  createEventBus,
+  formatSSE,
+  parseEventTypes,
+  parseReplayFrom,
+} from "./events.js";
+import {
+  METRICS_CONTENT_TYPE,
+  UNMATCHED_ROUTE,
+  createHttpMetrics,
+  formatPrometheus,
+  healthMetrics,
+  jsHeapFromMetrics,
+} from "./metrics.js";
 
 // ============================================================================
 // Types
@@ -18,6 +61,10 @@ import type { WSContext } from "hono/ws";
 export interface RelayOptions {
   port?: number;
   host?: string;
+  /** Bearer token required on every HTTP route and the /cdp WebSocket */
+  authToken?: string;
+  /** Directory downloads are saved to once a client enables downloads (default: ./downloads) */
+  downloadsDir?: string;
 }
 
 export interface RelayServer {
@@ -40,6 +87,12 @@ interface ConnectedTarget {
   targetInfo: TargetInfo;
 }
 
+interface NamedPage {
+  sessionId: string;
+  createdAt: string;
+  lastAccessedAt: string;
+}
+
 interface PlaywrightClient {
   id: string;
   ws: WSContext;
@@ -105,12 +158,23 @@ interface CDPEvent {
 export async function serveRelay(options: RelayOptions = {}): Promise<RelayServer> {
   const port = options.port ?? 9222;
   const host = options.host ?? "127.0.0.1";
+  const authToken = options.authToken;
+  const downloadsDir = resolve(options.downloadsDir ?? "downloads");
 
   // State
   const connectedTargets = new Map<string, ConnectedTarget>();
-  const namedPages = new Map<string, string>(); // name -> sessionId
+  const namedPages = new Map<string, NamedPage>();
+  const crashedSessions = new Set<string>(); // sessionIds that reported Inspector.targetCrashed
   const playwrightClients = new Map<string, PlaywrightClient>();
   let extensionWs: WSContext | null = null;
+  const events = createEventBus(); // streamed to GET /events
+  const startedAt = Date.now();
+  const httpMetrics = createHttpMetrics(); // reported by GET /metrics and GET /health
+
+  // Download behavior requested via Browser.setDownloadBehavior (null = never requested).
+  // chrome.debugger only reaches tabs, so it is applied per tab with Page.setDownloadBehavior.
+  let downloadBehavior: "allow" | "deny" | "default" | null = null;
+  const downloads = new Map<string, DownloadInfo>(); // CDP guid -> info
 
   // Pending requests to extension
   const extensionPendingRequests = new Map<
@@ -218,6 +282,115 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
     });
   }
 
+  function pageNameForSession(sessionId: string | undefined): string | null {
+    if (!sessionId) return null;
+    for (const [name, named] of namedPages) {
+      if (named.sessionId === sessionId) return name;
+    }
+    return null;
+  }
+
+  async function applyDownloadBehavior(sessionId: string): Promise<void> {
+    if (!downloadBehavior) return;
+    await sendToExtension({
+      method: "forwardCDPCommand",
+      params: {
+        sessionId,
+        method: "Page.setDownloadBehavior",
+        params:
+          downloadBehavior === "allow"
+            ? { behavior: "allow", downloadPath: downloadsDir }
+            : { behavior: downloadBehavior },
+      },
+    });
+  }
+
+  // Where Chrome will save a download in downloadsDir. Page.setDownloadBehavior can't
+  // name files by guid, and Chrome saves a taken name as "name (1).ext", so when the
+  // name is already taken the real path is unknown and null is reported instead.
+  function expectedDownloadPath(suggestedFilename: string): string | null {
+    const path = join(downloadsDir, sanitizeFilename(suggestedFilename));
+    const taken =
+      existsSync(path) || Array.from(downloads.values()).some((info) => info.path === path);
+    return taken ? null : path;
+  }
+
+  // Track downloads from Page.downloadWillBegin / Page.downloadProgress events
+  function recordDownloadEvent(
+    method: string,
+    params: Record<string, unknown> | undefined,
+    sessionId: string | undefined
+  ) {
+    if (method === "Page.downloadWillBegin") {
+      const { guid, url, suggestedFilename } = params as {
+        guid: string;
+        url: string;
+        suggestedFilename: string;
+      };
+      downloads.set(guid, {
+        id: guid,
+        page: pageNameForSession(sessionId),
+        url,
+        suggestedFilename,
+        path: downloadBehavior === "allow" ? expectedDownloadPath(suggestedFilename) : null,
+        size: null,
+        status: "in_progress",
+        startedAt: new Date().toISOString(),
+      });
+    } else if (method === "Page.downloadProgress") {
+      const { guid, totalBytes, receivedBytes, state } = params as {
+        guid: string;
+        totalBytes: number;
+        receivedBytes: number;
+        state: string;
+      };
+      const info = downloads.get(guid);
+      if (!info || state === "inProgress") return;
+      info.status = downloadStatusFromProgress(state);
+      info.size = receivedBytes || totalBytes || null;
+      info.finishedAt = new Date().toISOString();
+      events.publish("download.finished", { ...info });
+    }
+  }
+
+  // Publish crashes, dialogs and console errors of named pages to GET /events
+  function publishPageEvent(
+    method: string,
+    params: Record<string, unknown> | undefined,
+    sessionId: string | undefined
+  ) {
+    const page = pageNameForSession(sessionId);
+    if (!page) return;
+
+    if (method === "Inspector.targetCrashed") {
+      events.publish("page.crashed", { page });
+    } else if (method === "Page.javascriptDialogOpening") {
+      const { type, message } = params as { type: string; message: string };
+      events.publish("dialog.opened", { page, type, message });
+    } else if (method === "Runtime.consoleAPICalled") {
+      const { type, args } = params as {
+        type: string;
+        args?: Parameters<typeof consoleTextFromCDP>[0];
+      };
+      if (type === "error") {
+        events.publish("console.error", {
+          page,
+          source: "console",
+          text: consoleTextFromCDP(args),
+        });
+      }
+    } else if (method === "Runtime.exceptionThrown") {
+      const { exceptionDetails } = params as {
+        exceptionDetails: { text: string; exception?: { description?: string } };
+      };
+      events.publish("console.error", {
+        page,
+        source: "exception",
+        text: exceptionDetails.exception?.description ?? exceptionDetails.text,
+      });
+    }
+  }
+
   async function routeCdpCommand({
     method,
     params,
@@ -238,8 +411,21 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
           jsVersion: "V8",
         };
 
-      case "Browser.setDownloadBehavior":
+      case "Browser.setDownloadBehavior": {
+        const behavior = params?.behavior as string | undefined;
+        downloadBehavior = behavior === "deny" || behavior === "default" ? behavior : "allow";
+        if (downloadBehavior === "allow") {
+          mkdirSync(downloadsDir, { recursive: true });
+        }
+        await Promise.all(
+          Array.from(connectedTargets.keys()).map((id) =>
+            applyDownloadBehavior(id).catch((err) =>
+              log("Failed to set download behavior:", (err as Error).message)
+            )
+          )
+        );
         return {};
+      }
 
       case "Target.setAutoAttach":
         if (sessionId) {
@@ -324,6 +510,54 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
     });
   }
 
+  /** Gather GET /health: extension connection, page JS heaps and request stats */
+  async function collectHealth(): Promise<HealthResponse> {
+    // Count pending commands before sending our own
+    const extension = {
+      connected: extensionWs !== null,
+      pendingCommands: extensionPendingRequests.size,
+      targets: connectedTargets.size,
+      clients: playwrightClients.size,
+    };
+
+    const pageMemory: PageMemory[] = [];
+    if (extensionWs) {
+      await Promise.all(
+        Array.from(namedPages, async ([name, named]) => {
+          const { sessionId } = named;
+          if (!connectedTargets.has(sessionId) || crashedSessions.has(sessionId)) return;
+          try {
+            await sendToExtension({
+              method: "forwardCDPCommand",
+              params: { sessionId, method: "Performance.enable" },
+              timeout: 2000,
+            });
+            const result = (await sendToExtension({
+              method: "forwardCDPCommand",
+              params: { sessionId, method: "Performance.getMetrics" },
+              timeout: 2000,
+            })) as { metrics?: Array<{ name: string; value: number }> };
+            const heap = jsHeapFromMetrics(result.metrics ?? []);
+            if (heap) pageMemory.push({ name, ...heap });
+          } catch {
+            // Tab is busy or detaching - leave it out
+          }
+        })
+      );
+    }
+
+    return {
+      status: extension.connected ? "ok" : "degraded",
+      mode: "relay",
+      uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+      pages: namedPages.size,
+      browser: null,
+      extension,
+      pageMemory,
+      http: httpMetrics.stats(),
+    };
+  }
+
   // ============================================================================
   // HTTP/WebSocket Server
   // ============================================================================
@@ -331,20 +565,109 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
   const app = new Hono();
   const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
 
+  // Count every request, including rejected ones, by route pattern. Registered ahead of the
+  // auth middleware deliberately: it answers nothing itself, it only observes the status.
+  app.use("*", async (c, next) => {
+    const start = performance.now();
+    await next();
+    // Only the catch-all middleware matched: an unknown path
+    const route = routePath(c, -1);
+    httpMetrics.observe(
+      c.req.method,
+      route === "/*" || route === "*" ? UNMATCHED_ROUTE : route,
+      c.res.status,
+      (performance.now() - start) / 1000
+    );
+  });
+
+  // Require the bearer token on every route (including the /cdp upgrade) when configured.
+  // The extension has no way to send a token, so /extension is accepted from loopback only.
+  if (authToken) {
+    app.use("*", async (c, next) => {
+      if (c.req.path === "/extension" && isLoopbackAddress(getConnInfo(c).remote.address)) {
+        return next();
+      }
+      if (!isAuthorized(authToken, c.req.header("Authorization"), c.req.query("token"))) {
+        return c.json({ error: "unauthorized" }, 401);
+      }
+      return next();
+    });
+  }
+
   // Health check / server info
   app.get("/", (c) => {
     return c.json({
       wsEndpoint: `ws://${host}:${port}/cdp`,
+      engine: "chromium",
       extensionConnected: extensionWs !== null,
       mode: "extension",
     });
   });
 
-  // List named pages
+  // Health: extension connection, page memory and request stats (503 without an extension)
+  app.get("/health", async (c) => {
+    const health = await collectHealth();
+    return c.json(health, health.status === "ok" ? 200 : 503);
+  });
+
+  // The same numbers plus request histograms in Prometheus text format
+  app.get("/metrics", async (c) => {
+    const health = await collectHealth();
+    c.header("Content-Type", METRICS_CONTENT_TYPE);
+    return c.body(formatPrometheus([...healthMetrics(health), ...httpMetrics.families()]));
+  });
+
+  // Server-Sent Events stream of page, dialog, download, console and extension events
+  app.get("/events", (c) => {
+    let types: ReturnType<typeof parseEventTypes>;
+    try {
+      types = parseEventTypes(c.req.query("types"));
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+    const replayFrom = parseReplayFrom(c.req.header("Last-Event-ID"), c.req.query("since"));
+
+    return streamSSE(c, async (stream) => {
+      const send = (event: ServerEvent) => {
+        if (!types || types.has(event.type)) void stream.write(formatSSE(event));
+      };
+
+      // Replay what a reconnecting client missed, then follow live events
+      if (replayFrom !== null) {
+        events.since(replayFrom).forEach(send);
+      }
+      const unsubscribe = events.subscribe(send);
+      stream.onAbort(unsubscribe);
+      await stream.write(": connected\n\n");
+
+      while (!stream.aborted) {
+        await stream.sleep(SSE_HEARTBEAT_MS);
+        if (!stream.aborted) await stream.write(": ping\n\n");
+      }
+      unsubscribe();
+    });
+  });
+
+  // List named pages with metadata
   app.get("/pages", (c) => {
-    return c.json({
+    const details: PageInfo[] = [];
+    for (const [name, named] of namedPages) {
+      const target = connectedTargets.get(named.sessionId);
+      details.push({
+        name,
+        url: target?.targetInfo.url ?? "",
+        title: target?.targetInfo.title ?? "",
+        targetId: target?.targetId ?? "",
+        createdAt: named.createdAt,
+        lastAccessedAt: named.lastAccessedAt,
+        crashed: crashedSessions.has(named.sessionId),
+      });
+    }
+    const response: ListPagesResponse = {
       pages: Array.from(namedPages.keys()),
-    });
+      details,
+    };
+    return c.json(response);
   });
 
   // Get or create a named page
@@ -357,10 +680,11 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
     }
 
     // Check if page already exists by name
-    const existingSessionId = namedPages.get(name);
-    if (existingSessionId) {
-      const target = connectedTargets.get(existingSessionId);
+    const existing = namedPages.get(name);
+    if (existing) {
+      const target = connectedTargets.get(existing.sessionId);
       if (target) {
+        existing.lastAccessedAt = new Date().toISOString();
         // Activate the tab so it becomes the active tab
         await sendToExtension({
           method: "forwardCDPCommand",
@@ -397,7 +721,9 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
       // Find and name the new target
       for (const [sessionId, target] of connectedTargets) {
         if (target.targetId === result.targetId) {
-          namedPages.set(name, sessionId);
+          const now = new Date().toISOString();
+          namedPages.set(name, { sessionId, createdAt: now, lastAccessedAt: now });
+          events.publish("page.created", { page: name, targetId: target.targetId });
           // Activate the tab so it becomes the active tab
           await sendToExtension({
             method: "forwardCDPCommand",
@@ -422,6 +748,166 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
     }
   });
 
+  // ARIA snapshot YAML and refs, evaluated in the tab via Runtime.evaluate
+  app.get("/pages/:name/snapshot", async (c) => {
+    const name = c.req.param("name");
+    const named = namedPages.get(name);
+    const target = named ? connectedTargets.get(named.sessionId) : undefined;
+
+    if (!named || !target) {
+      return c.json({ error: "page not found" }, 404);
+    }
+
+    try {
+      const result = (await sendToExtension({
+        method: "forwardCDPCommand",
+        params: {
+          sessionId: named.sessionId,
+          method: "Runtime.evaluate",
+          params: { expression: getSnapshotExpression(), returnByValue: true },
+        },
+      })) as { result?: { value?: unknown }; exceptionDetails?: { text?: string } };
+
+      if (result.exceptionDetails) {
+        throw new Error(result.exceptionDetails.text ?? "Snapshot script threw an exception");
+      }
+
+      const snapshot = String(result.result?.value ?? "");
+      const response: SnapshotResponse = {
+        name,
+        url: target.targetInfo.url,
+        snapshot,
+        refs: parseSnapshotRefs(snapshot),
+      };
+      return c.json(response);
+    } catch (err) {
+      log("Error taking snapshot:", err);
+      return c.json({ error: (err as Error).message }, 500);
+    }
+  });
+
+  // List downloads seen in extension mode (optionally ?page=<name>)
+  app.get("/downloads", (c) => {
+    const pageFilter = c.req.query("page");
+    const response: ListDownloadsResponse = {
+      downloads: Array.from(downloads.values()).filter(
+        (info) => !pageFilter || info.page === pageFilter
+      ),
+    };
+    return c.json(response);
+  });
+
+  // File bytes of a completed download (only when saved to the managed directory)
+  app.get("/downloads/:id", (c) => {
+    const info = downloads.get(c.req.param("id"));
+
+    if (!info) {
+      return c.json({ error: "download not found" }, 404);
+    }
+    if (info.status !== "completed") {
+      return c.json({ error: `download is ${info.status}` }, 409);
+    }
+    if (!info.path) {
+      return c.json({ error: "download was saved under a name the relay can't locate" }, 409);
+    }
+    if (!existsSync(info.path)) {
+      return c.json({ error: "download file no longer exists" }, 410);
+    }
+
+    info.size = statSync(info.path).size;
+    return c.body(readFileSync(info.path), 200, {
+      "Content-Type": "application/octet-stream",
+      "Content-Disposition": contentDisposition(info.suggestedFilename),
+    });
+  });
+
+  // Forget a download and remove its file. Running downloads can't be canceled from a tab session.
+  app.delete("/downloads/:id", (c) => {
+    const id = c.req.param("id");
+    const info = downloads.get(id);
+
+    if (!info) {
+      return c.json({ error: "download not found" }, 404);
+    }
+    if (info.status === "in_progress") {
+      return c.json({ error: "download is in_progress" }, 409);
+    }
+
+    if (info.path) {
+      rmSync(info.path, { force: true });
+    }
+    downloads.delete(id);
+    return c.json({ success: true });
+  });
+
+  // Add cookies through the extension (CDP Network.setCookies on any attached tab)
+  app.post("/cookies", async (c) => {
+    let cookies: CookieParam[];
+    try {
+      const body = (await c.req.json().catch(() => ({}))) as { cookies?: unknown };
+      cookies = parseCookieInput(body.cookies);
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+
+    const sessionId = connectedTargets.keys().next().value;
+    if (!sessionId) {
+      return c.json({ error: "no tab attached" }, 409);
+    }
+
+    try {
+      await sendToExtension({
+        method: "forwardCDPCommand",
+        params: { sessionId, method: "Network.setCookies", params: { cookies } },
+      });
+    } catch (err) {
+      log("Error setting cookies:", err);
+      return c.json({ error: (err as Error).message }, 500);
+    }
+
+    const response: CookiesResponse = { count: cookies.length, summary: cookieSummary(cookies) };
+    return c.json(response);
+  });
+
+  // Delete cookies matching { name?, domain? } through the extension (all when no filter)
+  app.delete("/cookies", async (c) => {
+    let filter: CookieFilter;
+    try {
+      filter = parseCookieFilter(await c.req.json().catch(() => ({})));
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+
+    const sessionId = connectedTargets.keys().next().value;
+    if (!sessionId) {
+      return c.json({ error: "no tab attached" }, 409);
+    }
+
+    try {
+      const { cookies } = (await sendToExtension({
+        method: "forwardCDPCommand",
+        params: { sessionId, method: "Network.getAllCookies" },
+      })) as { cookies: Array<{ name: string; domain: string; path: string }> };
+
+      const deleted = matchCookies(cookies, filter);
+      for (const { name, domain, path } of deleted) {
+        await sendToExtension({
+          method: "forwardCDPCommand",
+          params: { sessionId, method: "Network.deleteCookies", params: { name, domain, path } },
+        });
+      }
+
+      const response: CookiesResponse = {
+        count: deleted.length,
+        summary: cookieSummary(deleted, "Deleted"),
+      };
+      return c.json(response);
+    } catch (err) {
+      log("Error deleting cookies:", err);
+      return c.json({ error: (err as Error).message }, 500);
+    }
+  });
+
   // Delete a named page (removes the name, doesn't close the tab)
   app.delete("/pages/:name", (c) => {
     const name = c.req.param("name");
@@ -559,6 +1045,7 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
             // Clear state
             connectedTargets.clear();
             namedPages.clear();
+            crashedSessions.clear();
             for (const pending of extensionPendingRequests.values()) {
               pending.reject(new Error("Extension connection replaced"));
             }
@@ -567,6 +1054,7 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
 
           extensionWs = ws;
           log("Extension connected");
+          events.publish("extension.connected", {});
         },
 
         async onMessage(event, ws) {
@@ -627,14 +1115,21 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
 
               // Use deduplication helper - only sends to clients that don't know about this target
               sendAttachedToTarget(target);
+
+              // New tabs inherit the download behavior a client already asked for
+              applyDownloadBehavior(target.sessionId).catch((err) =>
+                log("Failed to set download behavior:", (err as Error).message)
+              );
             } else if (method === "Target.detachedFromTarget") {
               const detachParams = params as { sessionId: string };
               connectedTargets.delete(detachParams.sessionId);
 
               // Also remove any name mapping
-              for (const [name, sid] of namedPages) {
-                if (sid === detachParams.sessionId) {
+              crashedSessions.delete(detachParams.sessionId);
+              for (const [name, named] of namedPages) {
+                if (named.sessionId === detachParams.sessionId) {
                   namedPages.delete(name);
+                  events.publish("page.closed", { page: name });
                   break;
                 }
               }
@@ -649,6 +1144,10 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
               const infoParams = params as { targetInfo: TargetInfo };
               for (const target of connectedTargets.values()) {
                 if (target.targetId === infoParams.targetInfo.targetId) {
+                  const page = pageNameForSession(target.sessionId);
+                  if (page && target.targetInfo.url !== infoParams.targetInfo.url) {
+                    events.publish("page.navigated", { page, url: infoParams.targetInfo.url });
+                  }
                   target.targetInfo = infoParams.targetInfo;
                   break;
                 }
@@ -659,6 +1158,12 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
                 params: infoParams,
               });
             } else {
+              if (method === "Inspector.targetCrashed" && sessionId) {
+                crashedSessions.add(sessionId);
+              }
+              recordDownloadEvent(method, params, sessionId);
+              publishPageEvent(method, params, sessionId);
+
               // Forward other CDP events to Playwright
               sendToPlaywright({
                 sessionId,
@@ -685,6 +1190,8 @@ export async function serveRelay(options: RelayOptions = {}): Promise<RelayServe
           extensionWs = null;
           connectedTargets.clear();
           namedPages.clear();
+          crashedSessions.clear();
+          events.publish("extension.disconnected", {});
 
           // Close all Playwright clients
           for (const client of playwrightClients.values()) {
@@ -0,0 +1,72 @@
+/**
+ * Bounded, cursor-addressable buffer for per-page event history.
+ *
+ * Every pushed item gets a monotonically increasing sequence number. Clients
+ * remember the last cursor they saw and ask for everything after it, so a
+ * script that reconnects later can pick up exactly where the previous one
+ * stopped. When the buffer is full the oldest items are evicted; `dropped`
+ * tells the caller that some items after their cursor were lost.
+ */
+
+export interface Sequenced<T> {
+  seq: number;
+  item: T;
+}
+
+export interface RingBufferSlice<T> {
+  items: Sequenced<T>[];
+  /** Sequence number of the newest item (pass back as `since` to continue) */
+  cursor: number;
+  /** True if items newer than `since` were evicted before they could be read */
+  dropped: boolean;
+}
+
+export interface RingBuffer<T> {
+  push: (item: T) => number;
+  /** Items with a sequence number greater than `since` (default: all retained items) */
+  since: (since?: number) => RingBufferSlice<T>;
+  clear: () => void;
+  readonly size: number;
+  readonly capacity: number;
+}
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error(`Invalid ring buffer capacity: ${capacity}. Must be a positive integer`);
+  }
+
+  const entries: Sequenced<T>[] = [];
+  let lastSeq = 0;
+
+  return {
+    push(item: T): number {
+      lastSeq++;
+      entries.push({ seq: lastSeq, item });
+      if (entries.length > capacity) {
+        entries.shift();
+      }
+      return lastSeq;
+    },
+
+    since(since = 0): RingBufferSlice<T> {
+      const oldestSeq = entries[0]?.seq ?? lastSeq + 1;
+      return {
+        items: entries.filter((e) => e.seq > since),
+        cursor: lastSeq,
+        dropped: since + 1 < oldestSeq && since < lastSeq,
+      };
+    },
+
+    clear(): void {
+      entries.length = 0;
+    },
+
+    get size() {
+      return entries.length;
+    },
+
+    get capacity() {
+      return capacity;
+    },
+  };
+}
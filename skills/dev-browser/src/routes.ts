@@ -0,0 +1,199 @@
+/**
+ * Server-managed request routing rules for POST /routes.
+ *
+ * Handlers registered with page.route() in a script die with that script's
+ * connection. Rules created here are registered by the launch server itself, so
+ * fixtures and fault injection stay active across client connections.
+ *
+ * URL patterns are Playwright globs ("**\/api/*") or regexes written as "/pattern/flags".
+ */
+
+import type { CreateRouteRequest, RouteAction } from "./types";
+
+export class RouteRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RouteRuleError";
+  }
+}
+
+/** Error codes accepted by Playwright's route.abort() */
+export const ABORT_ERROR_CODES = [
+  "aborted",
+  "accessdenied",
+  "addressunreachable",
+  "blockedbyclient",
+  "blockedbyresponse",
+  "connectionaborted",
+  "connectionclosed",
+  "connectionfailed",
+  "connectionrefused",
+  "connectionreset",
+  "internetdisconnected",
+  "namenotresolved",
+  "timedout",
+  "failed",
+] as const;
+
+/** Longest delay a rule may add, so a typo can't hang every request for hours */
+export const MAX_ROUTE_DELAY_MS = 60_000;
+
+const REGEX_PATTERN = /^\/(.+)\/([dgimsuy]*)$/;
+
+/**
+ * Turn a URL pattern into what page.route() expects: a RegExp for "/pattern/flags", else the glob.
+ * Throws RouteRuleError for invalid regexes and for the g and y flags, which make
+ * RegExp.test() resume from the last match and skip every other request.
+ */
+export function routeMatcher(url: string): string | RegExp {
+  const match = REGEX_PATTERN.exec(url);
+  if (!match) return url;
+  if (/[gy]/.test(match[2]!)) {
+    throw new RouteRuleError(`URL regex ${url} can't use the g or y flag`);
+  }
+  try {
+    return new RegExp(match[1]!, match[2]);
+  } catch (err) {
+    throw new RouteRuleError(`Invalid URL regex ${url}: ${(err as Error).message}`);
+  }
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function parseAction(value: unknown): RouteAction {
+  if (typeof value !== "object" || value === null) {
+    throw new RouteRuleError("action is required");
+  }
+  const action = value as Record<string, unknown>;
+
+  switch (action.type) {
+    case "fulfill": {
+      const status = action.status ?? 200;
+      if (typeof status !== "number" || !Number.isInteger(status) || status < 100 || status > 599) {
+        throw new RouteRuleError("fulfill status must be an HTTP status between 100 and 599");
+      }
+      if (action.headers !== undefined && !isStringRecord(action.headers)) {
+        throw new RouteRuleError("fulfill headers must map header names to strings");
+      }
+      if (action.body !== undefined && typeof action.body !== "string") {
+        throw new RouteRuleError("fulfill body must be a string");
+      }
+      if (action.path !== undefined && typeof action.path !== "string") {
+        throw new RouteRuleError("fulfill path must be a string");
+      }
+      if (action.body !== undefined && action.path !== undefined) {
+        throw new RouteRuleError("fulfill takes either body or path, not both");
+      }
+      if (action.contentType !== undefined && typeof action.contentType !== "string") {
+        throw new RouteRuleError("fulfill contentType must be a string");
+      }
+      return {
+        type: "fulfill",
+        status,
+        headers: action.headers as Record<string, string> | undefined,
+        body: action.body as string | undefined,
+        path: action.path as string | undefined,
+        contentType: action.contentType as string | undefined,
+      };
+    }
+
+    case "abort": {
+      const errorCode = action.errorCode ?? "failed";
+      if (!(ABORT_ERROR_CODES as readonly unknown[]).includes(errorCode)) {
+        throw new RouteRuleError(
+          `Invalid abort errorCode "${String(errorCode)}". Use one of: ${ABORT_ERROR_CODES.join(", ")}.`
+        );
+      }
+      return { type: "abort", errorCode: errorCode as string };
+    }
+
+    case "delay": {
+      const ms = action.ms;
+      if (typeof ms !== "number" || !Number.isFinite(ms) || ms < 0 || ms > MAX_ROUTE_DELAY_MS) {
+        throw new RouteRuleError(`delay ms must be between 0 and ${MAX_ROUTE_DELAY_MS}`);
+      }
+      return { type: "delay", ms };
+    }
+
+    case "modifyHeaders": {
+      if (action.set !== undefined && !isStringRecord(action.set)) {
+        throw new RouteRuleError("modifyHeaders set must map header names to strings");
+      }
+      if (
+        action.remove !== undefined &&
+        !(Array.isArray(action.remove) && action.remove.every((h) => typeof h === "string"))
+      ) {
+        throw new RouteRuleError("modifyHeaders remove must be a list of header names");
+      }
+      return {
+        type: "modifyHeaders",
+        set: action.set as Record<string, string> | undefined,
+        remove: action.remove as string[] | undefined,
+      };
+    }
+
+    default:
+      throw new RouteRuleError(
+        `Invalid action type "${String(action.type)}". Use fulfill, abort, delay or modifyHeaders.`
+      );
+  }
+}
+
+/**
+ * Validate a POST /routes body. Throws RouteRuleError on invalid input.
+ */
+export function parseRouteRequest(body: unknown): CreateRouteRequest {
+  if (typeof body !== "object" || body === null) {
+    throw new RouteRuleError("request body must be a JSON object");
+  }
+  const req = body as Record<string, unknown>;
+
+  if (typeof req.url !== "string" || req.url === "") {
+    throw new RouteRuleError("url is required");
+  }
+  routeMatcher(req.url);
+
+  if (req.method !== undefined && (typeof req.method !== "string" || req.method === "")) {
+    throw new RouteRuleError("method must be a non-empty string");
+  }
+  if (req.page !== undefined && typeof req.page !== "string") {
+    throw new RouteRuleError("page must be a string");
+  }
+  if (req.context !== undefined && typeof req.context !== "string") {
+    throw new RouteRuleError("context must be a string");
+  }
+  if (req.page !== undefined && req.context !== undefined) {
+    throw new RouteRuleError("a rule applies to either a page or a context, not both");
+  }
+
+  return {
+    url: req.url,
+    method: typeof req.method === "string" ? req.method.toUpperCase() : undefined,
+    action: parseAction(req.action),
+    page: req.page as string | undefined,
+    context: req.context as string | undefined,
+  };
+}
+
+/**
+ * Apply header overrides and removals (case-insensitive) to a request's headers.
+ */
+export function applyHeaderChanges(
+  headers: Record<string, string>,
+  set: Record<string, string> = {},
+  remove: string[] = []
+): Record<string, string> {
+  const drop = new Set([...remove, ...Object.keys(set)].map((h) => h.toLowerCase()));
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!drop.has(name.toLowerCase())) result[name] = value;
+  }
+  return { ...result, ...set };
+}
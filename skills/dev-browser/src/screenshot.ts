@@ -0,0 +1,103 @@
+/**
+ * Screenshot option handling for GET /pages/:name/screenshot.
+ *
+ * Options travel as query parameters so shell tools can use plain curl:
+ *   /pages/main/screenshot?fullPage=true&format=jpeg&quality=80
+ *   /pages/main/screenshot?clip=0,0,800,600
+ *   /pages/main/screenshot?ref=e5
+ */
+
+import type { ScreenshotOptions } from "./types";
+
+export class ScreenshotOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenshotOptionsError";
+  }
+}
+
+function queryString(query: Record<string, unknown>, key: string): string | undefined {
+  const value = query[key];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Parse and validate screenshot options from request query parameters.
+ * Throws ScreenshotOptionsError on invalid input.
+ */
+export function parseScreenshotQuery(query: Record<string, unknown>): ScreenshotOptions {
+  const options: ScreenshotOptions = {};
+
+  const fullPage = queryString(query, "fullPage");
+  if (fullPage !== undefined) {
+    if (fullPage !== "true" && fullPage !== "false") {
+      throw new ScreenshotOptionsError(`Invalid fullPage "${fullPage}". Must be true or false.`);
+    }
+    options.fullPage = fullPage === "true";
+  }
+
+  const format = queryString(query, "format");
+  if (format !== undefined) {
+    const normalized = format.toLowerCase() === "jpg" ? "jpeg" : format.toLowerCase();
+    if (normalized !== "png" && normalized !== "jpeg") {
+      throw new ScreenshotOptionsError(`Invalid format "${format}". Must be png or jpeg.`);
+    }
+    options.format = normalized;
+  }
+
+  const quality = queryString(query, "quality");
+  if (quality !== undefined) {
+    const num = Number(quality);
+    if (!Number.isInteger(num) || num < 0 || num > 100) {
+      throw new ScreenshotOptionsError(
+        `Invalid quality "${quality}". Must be an integer between 0 and 100.`
+      );
+    }
+    if (options.format !== "jpeg") {
+      throw new ScreenshotOptionsError("quality is only supported with format=jpeg");
+    }
+    options.quality = num;
+  }
+
+  const clip = queryString(query, "clip");
+  if (clip !== undefined) {
+    const parts = clip.split(",").map((p) => Number(p.trim()));
+    if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+      throw new ScreenshotOptionsError(
+        `Invalid clip "${clip}". Expected four numbers: x,y,width,height`
+      );
+    }
+    const [x, y, width, height] = parts as [number, number, number, number];
+    if (width <= 0 || height <= 0) {
+      throw new ScreenshotOptionsError("clip width and height must be positive");
+    }
+    options.clip = { x, y, width, height };
+  }
+
+  const ref = queryString(query, "ref");
+  if (ref !== undefined) {
+    if (options.clip || options.fullPage) {
+      throw new ScreenshotOptionsError("ref cannot be combined with clip or fullPage");
+    }
+    options.ref = ref;
+  }
+
+  return options;
+}
+
+/**
+ * Serialize screenshot options into a query string (without the leading "?").
+ * Inverse of parseScreenshotQuery.
+ */
+export function screenshotQueryString(options: ScreenshotOptions): string {
+  const params = new URLSearchParams();
+  if (options.fullPage !== undefined) params.set("fullPage", String(options.fullPage));
+  if (options.format) params.set("format", options.format);
+  if (options.quality !== undefined) params.set("quality", String(options.quality));
+  if (options.clip) {
+    const { x, y, width, height } = options.clip;
+    params.set("clip", [x, y, width, height].join(","));
+  }
+  if (options.ref) params.set("ref", options.ref);
+  return params.toString();
+}
@@ -0,0 +1,58 @@
+import { describe, test, expect } from "vitest";
+import { parseSnapshotRefs, getSnapshotExpression } from "../refs";
+
+describe("parseSnapshotRefs", () => {
+  test("extracts refs with role and name in document order", () => {
+    const yaml = [
+      "- banner:",
+      '  - link "Hacker News" [ref=e1]',
+      "  - navigation:",
+      '    - link "new" [ref=e2] [cursor=pointer]',
+      "- main:",
+      "  - textbox [ref=e3]",
+      "    - /placeholder: Search",
+    ].join("\n");
+
+    expect(parseSnapshotRefs(yaml)).toEqual([
+      { ref: "e1", role: "link", name: "Hacker News" },
+      { ref: "e2", role: "link", name: "new" },
+      { ref: "e3", role: "textbox" },
+    ]);
+  });
+
+  test("handles state attributes before the ref", () => {
+    const yaml = '- checkbox "Remember me" [checked] [ref=e7]';
+    expect(parseSnapshotRefs(yaml)).toEqual([{ ref: "e7", role: "checkbox", name: "Remember me" }]);
+  });
+
+  test("handles YAML-escaped keys and parents with children", () => {
+    const yaml = [
+      "- 'button \"It''s: draft\" [ref=e4]'",
+      '- listitem "Item" [ref=e5]:',
+      "  - text: details",
+    ].join("\n");
+
+    expect(parseSnapshotRefs(yaml)).toEqual([
+      { ref: "e4", role: "button", name: "It's: draft" },
+      { ref: "e5", role: "listitem", name: "Item" },
+    ]);
+  });
+
+  test("unescapes JSON escapes in names", () => {
+    const yaml = '- link "Say \\"hi\\"" [ref=e9]';
+    expect(parseSnapshotRefs(yaml)).toEqual([{ ref: "e9", role: "link", name: 'Say "hi"' }]);
+  });
+
+  test("returns an empty list when there are no refs", () => {
+    expect(parseSnapshotRefs('- heading "Title" [level=1]\n- text: hello')).toEqual([]);
+  });
+});
+
+describe("getSnapshotExpression", () => {
+  test("wraps the snapshot script and returns the snapshot", () => {
+    const expression = getSnapshotExpression();
+    expect(expression.startsWith("(() => {")).toBe(true);
+    expect(expression).toContain("window.__devBrowser_getAISnapshot = getAISnapshot");
+    expect(expression).toContain("return window.__devBrowser_getAISnapshot();");
+  });
+});
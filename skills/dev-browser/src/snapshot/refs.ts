@@ -0,0 +1,51 @@
+/**
+ * Helpers for working with ARIA snapshot YAML outside the browser.
+ *
+ * Used by the HTTP snapshot endpoints to return a flat list of refs next to
+ * the YAML, so tools can pick an element without parsing the tree themselves.
+ */
+
+import type { SnapshotRef } from "../types";
+import { getSnapshotScript } from "./browser-script";
+
+// Matches a snapshot line such as:  - link "Hacker News" [ref=e1]
+// Keys that needed YAML escaping are wrapped in single quotes: - 'button "a: b" [ref=e2]':
+const REF_LINE = /^\s*-\s+'?([A-Za-z][\w-]*)(?:\s+("(?:[^"\\]|\\.)*"))?.*?\[ref=([^\]\s]+)\]/;
+
+/**
+ * Extract every ref from snapshot YAML, in document order.
+ */
+export function parseSnapshotRefs(yaml: string): SnapshotRef[] {
+  const refs: SnapshotRef[] = [];
+
+  for (const line of yaml.split("\n")) {
+    const match = REF_LINE.exec(line);
+    if (!match) continue;
+
+    const [, role, rawName, ref] = match;
+    const entry: SnapshotRef = { ref: ref!, role: role! };
+
+    if (rawName) {
+      // Single-quoted YAML keys double any embedded single quotes
+      const unescaped = line.trimStart().startsWith("- '") ? rawName.replace(/''/g, "'") : rawName;
+      try {
+        entry.name = JSON.parse(unescaped) as string;
+      } catch {
+        entry.name = unescaped.slice(1, -1);
+      }
+    }
+
+    refs.push(entry);
+  }
+
+  return refs;
+}
+
+/**
+ * A self-contained JavaScript expression that injects the snapshot script
+ * (if needed) and evaluates to the snapshot YAML. Suitable for
+ * page.evaluate(expression) or CDP Runtime.evaluate.
+ */
+export function getSnapshotExpression(): string {
+  return `(() => {\n${getSnapshotScript()}\nreturn window.__devBrowser_getAISnapshot();\n})()`;
+}
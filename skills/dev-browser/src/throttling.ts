@@ -0,0 +1,121 @@
+/**
+ * Network and CPU throttling for named pages.
+ *
+ * Applied with CDP Network.emulateNetworkConditions and
+ * Emulation.setCPUThrottlingRate on the page's server-side CDP session, so the
+ * throttling stays in place across script runs until changed.
+ */
+
+import type {
+  CustomNetworkProfile,
+  NetworkConditions,
+  NetworkProfileName,
+  PageThrottling,
+} from "./types";
+
+export class ThrottlingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThrottlingError";
+  }
+}
+
+/** kbit/s -> bytes/s, as Chrome DevTools computes it */
+function kbps(value: number): number {
+  return value < 0 ? -1 : (value * 1000) / 8;
+}
+
+/** Network presets, matching the Chrome DevTools throttling presets */
+export const NETWORK_PROFILES: Record<Exclude<NetworkProfileName, "none">, NetworkConditions> = {
+  offline: { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+  "slow-3g": {
+    offline: false,
+    latency: 2000,
+    downloadThroughput: kbps(400),
+    uploadThroughput: kbps(400),
+  },
+  "fast-3g": {
+    offline: false,
+    latency: 562.5,
+    downloadThroughput: kbps(1440),
+    uploadThroughput: kbps(675),
+  },
+};
+
+/** Conditions that remove network throttling */
+export const NO_NETWORK_THROTTLING: NetworkConditions = {
+  offline: false,
+  latency: 0,
+  downloadThroughput: -1,
+  uploadThroughput: -1,
+};
+
+/** Highest CPU slowdown factor accepted */
+export const MAX_CPU_RATE = 100;
+
+export const DEFAULT_THROTTLING: PageThrottling = { network: null, conditions: null, cpuRate: 1 };
+
+function customConditions(profile: CustomNetworkProfile): NetworkConditions {
+  const { latency, downloadKbps, uploadKbps } = profile;
+  if (typeof latency !== "number" || !Number.isFinite(latency) || latency < 0) {
+    throw new ThrottlingError("network.latency must be a non-negative number of ms");
+  }
+  for (const [key, value] of [
+    ["downloadKbps", downloadKbps],
+    ["uploadKbps", uploadKbps],
+  ] as const) {
+    if (typeof value !== "number" || !Number.isFinite(value) || (value <= 0 && value !== -1)) {
+      throw new ThrottlingError(`network.${key} must be a positive number of kbit/s, or -1`);
+    }
+  }
+  return {
+    offline: false,
+    latency,
+    downloadThroughput: kbps(downloadKbps),
+    uploadThroughput: kbps(uploadKbps),
+  };
+}
+
+/**
+ * Apply a throttling request to a page's current throttling.
+ * Fields left out of the request keep their current value.
+ * Throws ThrottlingError on invalid input.
+ */
+export function parseThrottlingRequest(body: unknown, current: PageThrottling): PageThrottling {
+  if (typeof body !== "object" || body === null) {
+    throw new ThrottlingError("request body must be a JSON object");
+  }
+  const { network, cpuRate } = body as Record<string, unknown>;
+  const next: PageThrottling = { ...current };
+
+  if (network === null || network === "none") {
+    next.network = null;
+    next.conditions = null;
+  } else if (typeof network === "string") {
+    if (!Object.hasOwn(NETWORK_PROFILES, network)) {
+      throw new ThrottlingError(
+        `Unknown network profile "${network}". Use offline, slow-3g, fast-3g, none, or { latency, downloadKbps, uploadKbps }.`
+      );
+    }
+    const name = network as keyof typeof NETWORK_PROFILES;
+    next.network = name;
+    next.conditions = NETWORK_PROFILES[name];
+  } else if (typeof network === "object") {
+    next.network = "custom";
+    next.conditions = customConditions(network as CustomNetworkProfile);
+  } else if (network !== undefined) {
+    throw new ThrottlingError("network must be a profile name or an object");
+  }
+
+  if (cpuRate !== undefined) {
+    if (typeof cpuRate !== "number" || !Number.isFinite(cpuRate) || cpuRate < 1) {
+      throw new ThrottlingError("cpuRate must be a number >= 1 (1 = no throttling)");
+    }
+    if (cpuRate > MAX_CPU_RATE) {
+      throw new ThrottlingError(`cpuRate must be at most ${MAX_CPU_RATE}`);
+    }
+    next.cpuRate = cpuRate;
+  }
+
+  return next;
+}
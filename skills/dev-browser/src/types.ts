@@ -1,5 +1,7 @@
 // API request/response types - shared between client and server
 
+import type { WaitForPageLoadResult } from "./client";
+
 export interface ServeOptions {
   port?: number;
   headless?: boolean;
@@ -10,8 +12,60 @@ export interface ServeOptions {
   cookies?: string[];
   /** Label for this server instance (default: process.cwd()) */
   label?: string;
+  /** Bearer token required on every HTTP route (default: no authentication) */
+  authToken?: string;
+  /** Record request/response bodies in the network log up to this many bytes (default: 0 = off) */
+  networkBodyLimit?: number;
+  /** Directory for Playwright trace files (default: profileDir/traces, ./traces, or the ephemeral temp dir) */
+  traceDir?: string;
+  /** How to answer JavaScript dialogs on pages without their own policy (default: "dismiss") */
+  dialogPolicy?: DialogPolicy;
+  /** Raw --grant-permissions values ("[origin=]perm1,perm2") granted at startup */
+  grantPermissions?: string[];
+  /** Write the persistent context's cookies to this file on shutdown (.json = JSON, else Netscape) */
+  saveCookies?: string;
+  /** Restore this checkpoint (from <profileDir>/checkpoints) into the persistent context at startup */
+  restoreCheckpoint?: string;
+  /**
+   * Use a throwaway browser profile in a temp directory, deleted on shutdown (no profile lock).
+   * Traces (unless traceDir is set), downloads and new checkpoints go there too.
+   */
+  ephemeral?: boolean;
+  /** Browser engine to launch (default: "chromium") */
+  browser?: BrowserEngine;
+  /** Chrome/Chromium executable to launch instead of Playwright's bundled build */
+  chromePath?: string;
+  /** Extra Chromium command-line switches */
+  chromeArgs?: string[];
+  /** Unpacked extension directories to load into Chromium */
+  extensions?: string[];
+  /** Accept invalid TLS certificates (self-signed staging servers) in every context */
+  ignoreHTTPSErrors?: boolean;
+  /** Upstream proxy for the browser (isolated contexts can override it) */
+  proxy?: ProxySettings;
+}
+
+/** Upstream proxy, in Playwright's launch/newContext format */
+export interface ProxySettings {
+  /** e.g. "http://proxy.internal:3128" or "socks5://127.0.0.1:1080" */
+  server: string;
+  /** Comma-separated hosts that skip the proxy, e.g. "localhost,.corp.example.com" */
+  bypass?: string;
+  username?: string;
+  password?: string;
+}
+
+/** Proxy as reported by the server - credentials are never echoed back */
+export interface ProxyInfo {
+  server: string;
+  bypass: string | null;
+  /** Whether the proxy is used with a username and password */
+  authenticated: boolean;
 }
 
+/** Browser engines the launch server can run. Only Chromium is reached over CDP. */
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
 export interface ViewportSize {
   width: number;
   height: number;
@@ -21,6 +75,79 @@ export interface GetPageRequest {
   name: string;
   /** Optional viewport size for new pages */
   viewport?: ViewportSize;
+  /** Named browser context to create the page in (default: the persistent context) */
+  context?: string;
+  /** Device/locale/timezone/geolocation emulation for new pages */
+  emulation?: EmulationOptions;
+}
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  /** Accuracy in meters (default: 0) */
+  accuracy?: number;
+}
+
+export interface EmulationOptions {
+  /** Playwright device descriptor name, e.g. "iPhone 13" (explicit fields below override it) */
+  device?: string;
+  userAgent?: string;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  /** BCP 47 locale, e.g. "de-DE" */
+  locale?: string;
+  /** IANA timezone, e.g. "Europe/Berlin" */
+  timezoneId?: string;
+  /** Position reported to the page. Sites only read it once the geolocation permission is granted. */
+  geolocation?: Geolocation;
+  colorScheme?: "light" | "dark" | "no-preference";
+  reducedMotion?: "reduce" | "no-preference";
+}
+
+/** Built-in network profiles ("none" removes throttling) */
+export type NetworkProfileName = "offline" | "slow-3g" | "fast-3g" | "none";
+
+export interface CustomNetworkProfile {
+  /** Added round-trip latency in ms */
+  latency: number;
+  /** Download throughput in kbit/s (-1 = unlimited) */
+  downloadKbps: number;
+  /** Upload throughput in kbit/s (-1 = unlimited) */
+  uploadKbps: number;
+}
+
+/** Parameters of CDP Network.emulateNetworkConditions (throughput in bytes/s, -1 = unlimited) */
+export interface NetworkConditions {
+  offline: boolean;
+  latency: number;
+  downloadThroughput: number;
+  uploadThroughput: number;
+}
+
+export interface ThrottlingRequest {
+  /** Profile name or custom latency/throughput; null or "none" removes network throttling */
+  network?: NetworkProfileName | CustomNetworkProfile | null;
+  /** CPU slowdown factor (1 = no throttling, 4 = 4x slower) */
+  cpuRate?: number;
+}
+
+export interface PageThrottling {
+  /** Active network profile, "custom" for custom values, null when not throttled */
+  network: Exclude<NetworkProfileName, "none"> | "custom" | null;
+  conditions: NetworkConditions | null;
+  cpuRate: number;
+}
+
+export interface ThrottlingResponse {
+  name: string;
+  throttling: PageThrottling;
+}
+
+export interface EmulationResponse {
+  name: string;
+  /** Emulation settings now in effect for the page */
+  emulation: EmulationOptions;
 }
 
 export interface GetPageResponse {
@@ -29,19 +156,547 @@ export interface GetPageResponse {
   targetId: string; // CDP target ID for reliable page matching
 }
 
+export interface PageInfo {
+  name: string;
+  url: string;
+  title: string;
+  targetId: string;
+  /** Browser context the page lives in (launch mode only) */
+  context?: string;
+  /** ISO timestamp of when the page was created */
+  createdAt: string;
+  /** ISO timestamp of the last time a client requested the page */
+  lastAccessedAt: string;
+  crashed: boolean;
+  /** Effective dialog policy (launch mode only) */
+  dialogPolicy?: DialogPolicy;
+  /** Emulation settings applied to the page (launch mode only) */
+  emulation?: EmulationOptions;
+  /** Network and CPU throttling in effect (launch mode only) */
+  throttling?: PageThrottling;
+}
+
 export interface ListPagesResponse {
   pages: string[];
+  /** Per-page metadata, in the same order as `pages` */
+  details: PageInfo[];
+}
+
+export interface CreateContextRequest {
+  name: string;
+  /** Proxy for this context only: a URL (credentials in userinfo) or settings object */
+  proxy?: string | ProxySettings;
+}
+
+export interface ContextInfo {
+  name: string;
+  /** True for the default persistent context backed by the profile directory */
+  persistent: boolean;
+  /** Number of named pages living in this context */
+  pages: number;
+  /** Proxy this context's traffic goes through (null = direct) */
+  proxy: ProxyInfo | null;
+}
+
+export interface ListContextsResponse {
+  contexts: ContextInfo[];
+}
+
+export interface ScreenshotClip {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotOptions {
+  /** Capture the full scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Capture only this region of the page */
+  clip?: ScreenshotClip;
+  /** Capture only the element with this snapshot ref (from getAISnapshot) */
+  ref?: string;
+  /** Image format (default: png) */
+  format?: "png" | "jpeg";
+  /** JPEG quality 0-100 (jpeg only) */
+  quality?: number;
+}
+
+export interface SnapshotRef {
+  /** Ref id usable with selectSnapshotRef / screenshot ?ref= (e.g. "e5") */
+  ref: string;
+  /** ARIA role (e.g. "link", "button", "textbox") */
+  role: string;
+  /** Accessible name, if the element has one */
+  name?: string;
+}
+
+export interface SnapshotResponse {
+  name: string;
+  url: string;
+  /** ARIA snapshot YAML, same format as getAISnapshot() */
+  snapshot: string;
+  refs: SnapshotRef[];
+}
+
+export interface GotoRequest {
+  url: string;
+  /** Playwright load state to wait for before checking page load (default: "load") */
+  waitUntil?: "load" | "domcontentloaded" | "networkidle" | "commit";
+  /** Navigation timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Skip the waitForPageLoad() check after navigation (default: false) */
+  skipLoadWait?: boolean;
+}
+
+export type NavigationErrorKind = "dns" | "tls" | "connection" | "timeout" | "aborted" | "other";
+
+export interface NavigationError {
+  kind: NavigationErrorKind;
+  /** Chromium net error code when available (e.g. "net::ERR_NAME_NOT_RESOLVED") */
+  code?: string;
+  message: string;
+  /** Whether the failure is usually transient (dns, connection, timeout) */
+  retryable: boolean;
+}
+
+export interface GotoResponse {
+  /** True when navigation succeeded (regardless of HTTP status) */
+  ok: boolean;
+  /** URL the page ended up on */
+  url: string;
+  /** HTTP status of the final response (null for about:, data: or failed navigations) */
+  status: number | null;
+  /** URLs that redirected to the final URL, in order */
+  redirectChain: string[];
+  /** Result of waitForPageLoad() after navigation (null if skipped or navigation failed) */
+  load: WaitForPageLoadResult | null;
+  error?: NavigationError;
+}
+
+export interface ConsoleEntry {
+  /** Sequence number; pass the largest seen as `since` to fetch only newer entries */
+  seq: number;
+  /** Console message type ("log", "error", "warning", ...), or "pageerror" / "crash" */
+  type: string;
+  text: string;
+  /** Source location of the console call, when known */
+  location?: { url: string; lineNumber: number; columnNumber: number };
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+export interface ConsoleLogsResponse {
+  name: string;
+  entries: ConsoleEntry[];
+  /** Cursor to pass as `since` on the next request */
+  cursor: number;
+  /** True if entries after `since` were evicted from the buffer */
+  dropped: boolean;
+}
+
+export interface NetworkHeader {
+  name: string;
+  value: string;
+}
+
+export interface NetworkTiming {
+  /** ms spent on DNS lookup (-1 if not applicable) */
+  dns: number;
+  /** ms spent establishing the connection, including TLS (-1 if not applicable) */
+  connect: number;
+  /** ms spent on the TLS handshake (-1 if not applicable) */
+  ssl: number;
+  /** ms between sending the request and the first response byte */
+  wait: number;
+  /** ms spent receiving the response body */
+  receive: number;
+}
+
+export interface NetworkBody {
+  text: string;
+  /** "base64" for binary bodies */
+  encoding?: "base64";
+  /** Original size in bytes */
+  size: number;
+  /** True if the body exceeded the size cap and was cut */
+  truncated: boolean;
+}
+
+export interface NetworkEntry {
+  /** Sequence number; pass the largest seen as `since` to fetch only newer entries */
+  seq: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  /** HTTP status (null when the request failed before a response) */
+  status: number | null;
+  statusText: string;
+  mimeType: string;
+  requestHeaders: NetworkHeader[];
+  responseHeaders: NetworkHeader[];
+  /** ISO timestamp of when the request started */
+  startedAt: string;
+  /** Total time in ms (-1 if unknown) */
+  durationMs: number;
+  timing: NetworkTiming;
+  /** Protocol the response arrived over, e.g. "http/1.1" or "h2" (Chromium only) */
+  httpVersion?: string;
+  /** Failure text for failed requests (e.g. "net::ERR_ABORTED") */
+  failure?: string;
+  requestBody?: NetworkBody;
+  responseBody?: NetworkBody;
+}
+
+export interface NetworkLogResponse {
+  name: string;
+  entries: NetworkEntry[];
+  /** Cursor to pass as `since` on the next request */
+  cursor: number;
+  /** True if entries after `since` were evicted from the buffer */
+  dropped: boolean;
+}
+
+export interface TracingStartRequest {
+  /** Browser context to trace (default: the persistent context) */
+  context?: string;
+  /** Trace name, used as the trace title and file name prefix */
+  name?: string;
+  /** Capture screenshots (default: true) */
+  screenshots?: boolean;
+  /** Capture DOM snapshots (default: true) */
+  snapshots?: boolean;
+  /** Include source files of the calling scripts (default: true) */
+  sources?: boolean;
+}
+
+export interface TracingStopRequest {
+  /** Browser context whose trace to stop (default: the persistent context) */
+  context?: string;
+}
+
+export interface TraceInfo {
+  context: string;
+  name: string;
+  /** ISO timestamp of when tracing started */
+  startedAt: string;
+}
+
+export interface TracingStopResponse extends TraceInfo {
+  /** Absolute path of the written trace.zip (open with `npx playwright show-trace <path>`) */
+  path: string;
+  stoppedAt: string;
+}
+
+export interface TracingStatusResponse {
+  traces: TraceInfo[];
+}
+
+export type DownloadStatus = "in_progress" | "completed" | "failed" | "canceled";
+
+export interface DownloadInfo {
+  id: string;
+  /** Name of the page that triggered the download (null if unknown) */
+  page: string | null;
+  url: string;
+  suggestedFilename: string;
+  /**
+   * Where the file is stored on the server (null until known). On the relay it stays null
+   * when the filename collided with an earlier download, since Chrome renames the file.
+   */
+  path: string | null;
+  /** File size in bytes (null while in progress or when unknown) */
+  size: number | null;
+  status: DownloadStatus;
+  /** Failure reason when status is "failed" */
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ListDownloadsResponse {
+  downloads: DownloadInfo[];
+}
+
+/** Data of each event type on GET /events */
+export interface ServerEventMap {
+  "page.created": { page: string; targetId: string; context?: string };
+  /** Closed by a client, by the user, with its context, or by a browser crash (before browser.restarted) */
+  "page.closed": { page: string };
+  /** Main-frame navigation */
+  "page.navigated": { page: string; url: string };
+  "page.crashed": { page: string };
+  /** dialogId is set on the launch server, where held dialogs can be answered by id */
+  "dialog.opened": { page: string; type: string; message: string; dialogId?: number };
+  /** Completed, failed or canceled download */
+  "download.finished": DownloadInfo;
+  /** console.error() call or uncaught exception */
+  "console.error": { page: string; source: "console" | "exception"; text: string };
+  /** Relay only */
+  "extension.connected": Record<string, never>;
+  /** Relay only */
+  "extension.disconnected": Record<string, never>;
+  /** Launch server only: the browser was relaunched after a crash; pages lists the restored pages */
+  "browser.restarted": { restarts: number; pages: string[] };
+}
+
+export type ServerEventType = keyof ServerEventMap;
+
+/** One event on GET /events. Narrow on `type` to get the matching `data`. */
+export type ServerEvent = {
+  [T in ServerEventType]: {
+    /** Increasing id; send it back as Last-Event-ID to resume after a disconnect */
+    id: number;
+    type: T;
+    timestamp: string;
+    data: ServerEventMap[T];
+  };
+}[ServerEventType];
+
+/** How the server answers JavaScript dialogs; "hold" leaves them open for a later decision */
+export type DialogPolicy = "accept" | "dismiss" | "accept-with-text" | "hold";
+
+export interface UpdatePageRequest {
+  /** Dialog policy for this page; null resets it to the server default */
+  dialogPolicy?: DialogPolicy | null;
+  /** Prompt answer used by the accept-with-text policy (default: the prompt's default value) */
+  dialogText?: string;
+}
+
+export interface DialogRecord {
+  id: number;
+  type: string;
+  message: string;
+  /** Default value of a prompt() dialog, empty for other types */
+  defaultValue: string;
+  /** Page URL when the dialog opened */
+  url: string;
+  /** Policy in effect when the dialog opened */
+  policy: DialogPolicy;
+  /** A held dialog is dismissed when its page navigates away or closes before it is answered */
+  status: "pending" | "accepted" | "dismissed";
+  /** Text the prompt was answered with */
+  promptText?: string;
+  openedAt: string;
+  handledAt?: string;
+}
+
+export interface ListDialogsResponse {
+  name: string;
+  policy: DialogPolicy;
+  /** Pending and past dialogs, oldest first */
+  dialogs: DialogRecord[];
+}
+
+export interface DialogResponseRequest {
+  accept: boolean;
+  promptText?: string;
+}
+
+export type RouteAction =
+  | {
+      /** Respond without hitting the network, from an inline body or a local file */
+      type: "fulfill";
+      status?: number;
+      headers?: Record<string, string>;
+      body?: string;
+      /** Path of a file on the server machine to serve as the body */
+      path?: string;
+      contentType?: string;
+    }
+  | {
+      /** Fail the request with a network error code (default: "failed") */
+      type: "abort";
+      errorCode?: string;
+    }
+  | {
+      /** Hold the request for `ms` milliseconds, then continue it */
+      type: "delay";
+      ms: number;
+    }
+  | {
+      /** Continue the request with headers added/replaced and removed */
+      type: "modifyHeaders";
+      set?: Record<string, string>;
+      remove?: string[];
+    };
+
+export interface CreateRouteRequest {
+  /** URL glob (e.g. "**\/api/*") or regex written as "/pattern/flags" */
+  url: string;
+  /** Only match this HTTP method (default: any) */
+  method?: string;
+  action: RouteAction;
+  /** Apply to one named page... */
+  page?: string;
+  /** ...or to every page of a context (default: the persistent context) */
+  context?: string;
+}
+
+export interface RouteRule extends CreateRouteRequest {
+  id: string;
+  createdAt: string;
+  /** Number of requests the rule has handled */
+  hits: number;
+}
+
+export interface ListRoutesResponse {
+  routes: RouteRule[];
+}
+
+export interface GrantPermissionsRequest {
+  /** Permissions to grant, e.g. ["notifications", "clipboard-read"] */
+  permissions: string[];
+  /** Origin to grant for (default: every origin) */
+  origin?: string;
+  /** Browser context (default: the persistent context) */
+  context?: string;
+}
+
+export interface ClearPermissionsRequest {
+  /** Browser context whose grants to clear (default: the persistent context) */
+  context?: string;
+}
+
+export interface PermissionGrant {
+  context: string;
+  /** Origin the grant applies to (null = every origin) */
+  origin: string | null;
+  permissions: string[];
+  grantedAt: string;
+}
+
+export interface ListPermissionsResponse {
+  grants: PermissionGrant[];
+}
+
+export interface SetCookiesRequest {
+  /** One --cookies style argument (key-value, JSON or @file) or a list of them */
+  cookies: string | string[];
+  /** Browser context (default: the persistent context; ignored in extension mode) */
+  context?: string;
+}
+
+export interface DeleteCookiesRequest {
+  /** Only cookies with this exact name */
+  name?: string;
+  /** Only cookies for this domain and its subdomains */
+  domain?: string;
+  /** Browser context (default: the persistent context; ignored in extension mode) */
+  context?: string;
+}
+
+export interface CookiesResponse {
+  /** Number of cookies set or deleted */
+  count: number;
+  /** Log-safe summary (names and domains, never values) */
+  summary: string;
+}
+
+export interface CheckpointRequest {
+  /** Browser context to save from / restore into (default: the persistent context) */
+  context?: string;
+}
+
+export interface CheckpointInfo {
+  name: string;
+  /** Context the checkpoint was taken from */
+  context: string;
+  createdAt: string;
+  /** Checkpoint file on the server */
+  path: string;
+  cookies: number;
+  /** Origins with saved localStorage/IndexedDB */
+  origins: number;
+  /** Named pages that are rebuilt on restore */
+  pages: string[];
+}
+
+export interface ListCheckpointsResponse {
+  checkpoints: CheckpointInfo[];
+}
+
+export interface RestoreCheckpointResponse {
+  name: string;
+  context: string;
+  /** Named pages that were (re)created */
+  pages: string[];
+  /** IndexedDB records that couldn't be written back (non-JSON keys or values) */
+  skippedRecords: number;
 }
 
 export interface ServerInfoResponse {
   wsEndpoint: string;
   mode: "launch" | "relay";
+  /** Engine behind wsEndpoint: "chromium" is a CDP endpoint, others a Playwright server */
+  engine: BrowserEngine;
   label: string;
   pid: number;
   port: number;
   cdpPort: number;
   headless: boolean;
+  /** Browser profile is a temp directory deleted on shutdown */
+  ephemeral: boolean;
+  /** Browser-wide proxy from --proxy (null = direct) */
+  proxy: ProxyInfo | null;
   startedAt: string;
   uptime: string;
   pages: number;
+  /** Times the browser was relaunched after crashing or being killed */
+  restarts: number;
+}
+
+/** Resource use of the browser process and its children (renderers, GPU, utility) */
+export interface BrowserProcessStats {
+  /** Main browser process */
+  pid: number;
+  processes: number;
+  rssBytes: number;
+  cpuSeconds: number;
+}
+
+/** JS heap of a named page, from CDP Performance.getMetrics */
+export interface PageMemory {
+  name: string;
+  jsHeapUsedBytes: number;
+  jsHeapTotalBytes: number;
+}
+
+/** Requests served per route since the server started */
+export interface HttpRouteStats {
+  method: string;
+  /** Route pattern, e.g. "/pages/:name" ("unmatched" for unknown paths) */
+  route: string;
+  requests: number;
+  /** Responses with a 5xx status */
+  errors: number;
+  meanMs: number;
+}
+
+/** Extension connection of the relay */
+export interface ExtensionHealth {
+  connected: boolean;
+  /** CDP commands sent to the extension and still waiting for an answer */
+  pendingCommands: number;
+  /** Attached tabs */
+  targets: number;
+  /** Connected Playwright clients */
+  clients: number;
+}
+
+export interface HealthResponse {
+  /** "degraded" while the browser restarts (launch) or no extension is connected (relay) */
+  status: "ok" | "degraded";
+  mode: "launch" | "relay";
+  uptimeSeconds: number;
+  pages: number;
+  /** Launch mode; null if the browser process can't be inspected */
+  browser: BrowserProcessStats | null;
+  /** Launch mode: times the browser was relaunched after a crash */
+  restarts?: number;
+  /** Relay mode */
+  extension?: ExtensionHealth;
+  /** Pages whose heap could be read (crashed and busy pages are left out) */
+  pageMemory: PageMemory[];
+  http: HttpRouteStats[];
 }